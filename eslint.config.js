@@ -20,4 +20,10 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    files: ['src/scheduler/cli.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
@@ -1,52 +1,243 @@
-import { useMemo, useState } from "react";
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import {
+  advanceBracket,
+  analyzeSession,
+  applyOverrides,
+  bracketChampion,
+  carryOverFor,
+  checkFeasibility,
+  computeStandings,
+  countAfterRosterChange,
+  countRepeats,
+  courtSides,
+  courtsToText,
+  createBracket,
+  csvRosterDraft,
+  DEFAULT_TIEBREAKERS,
+  decodeSharePayload,
+  describeConstraint,
+  encodeSharePayload,
+  fairnessReport,
+  generatePoolPlay,
+  generateSchedule,
+  guessImportMapping,
+  IMPORT_FIELDS,
+  isCompleteScore,
+  isMatchPlayable,
+  normalizeCategory,
+  overridesFor,
+  parseCourtsInput,
+  parseNumberList,
+  playoffTeams,
+  poolName,
+  randomSeed,
+  ratingBalanceFor,
+  resolveBracket,
+  rosterFromImport,
+  scheduleIssues,
+  seasonReport,
+  seedQualifiers,
+  splitIntoPools,
+  TIEBREAKERS,
+  type Availability,
+  type Bracket,
+  type BracketFormat,
+  type BracketMatch,
+  type CarryOver,
+  type CourtChange,
+  type FairnessReport,
+  type CourtScore,
+  type HardConstraint,
+  type ImportField,
+  type LadderRule,
+  type LeagueSession,
+  type Mode,
+  type OptimizeProgress,
+  type OptimizeRequest,
+  type RosterImport,
+  type Round,
+  type RoundOverride,
+  type SessionScores,
+  type StandingRow,
+  type Tiebreaker,
+  type TournamentSettings,
+} from "./scheduler";
+import type { OptimizerMessage } from "./scheduler/optimizer";
 
 /**
  * Pickleball Scheduler (v2.x "Pro TV")
  * - Couples OR Round Robin (individuals)
  * - Courts input: count (e.g., 8) OR list/ranges (e.g., 1-3,5,6)
+ * - Court changes: a different court list from a given game on (courts opening/closing); byes adjust per game
+ * - Round Robin: optional singles courts (1 vs 1) take the players left over after the doubles courts
+ * - Round Robin: optional spare courts for leftovers (2: singles, 3: cutthroat), rotated fairly like byes
+ * - Tournament: pool play on separate courts, then a single/double elimination bracket seeded from the pools
  * - Inputs are TEXT so phone keyboard supports "-" and ","
- * - Generate auto-enters TV mode
+ * - Generate builds a quick draft, then a whole-session optimizer (Web Worker) improves it; then auto-enters TV mode
  * - Setup Reset clears everything
  * - TV mode: Exit (left), labeled Prev/Next, NO Reset/Regenerate (safer)
- * - TV mode: Byes at top
- * - Display is numbers only with dashes
+ * - TV mode: Byes at top, next game "on deck" below the courts
+ * - Player lookup: one person's whole night on a phone (court, partner, opponents, byes per game); player links open it
+ * - Optional roster: names map to participant numbers (roster row 1 = #1, ...)
+ * - Display is names (or numbers only, toggle in TV mode) with dashes
  *   - Couples: "3 - 7"
  *   - Round Robin (fixed teams): "12 - 4  vs  19 - 7" (pro look)
  * - Balanced byes across the whole session
- * - Couples: minimize repeat matchups across games
- * - Round Robin: fixed teams (first two partners, last two partners) and minimize repeat PARTNERS only
+ * - Fairness report: byes per person, partner/opponent heatmaps and every repeated pairing with its games
+ * - Late arrivals / early departures: replan remaining games, earlier games stay frozen
+ * - League: record finished sessions; new sessions avoid recent partners and give last week's byes priority; season report
+ * - Manual edits: drag (or tap) to swap two people in a game; locked courts/byes survive a replan; broken rules are flagged
+ * - Couples: minimize repeat matchups across games; a full rotation (everyone meets everyone once) when courts and games allow
+ * - Round Robin: fixed teams (first two partners, last two partners) and minimize repeat PARTNERS
+ * - Round Robin: weighted avoidance of repeat OPPONENTS and of landing on the same court again
+ * - Round Robin: optional player ratings balance the two teams and group similar levels per court
+ * - Hard rules: pinned partners, never partners/opponents, game limits, required courts (reports the rule in the way)
+ * - Round Robin: optional mixed doubles (each team one player per category; byes balanced within each category)
+ * - Seeded: same inputs + same seed rebuild the same schedule; share links carry the seed (+ any edits)
  * - Setup screen shows Session Summary (bye spread + repeat count)
+ * - Setup screen: live plan check as count/courts/games change (courts used, byes, unavoidable repeats, suggestions)
+ * - Ladder (King of the Court): only game 1 is planned up front; each later game follows the results
+ *   (winners move up a court, losers move down), with partners split or kept per the ladder rule
+ * - Scorekeeper view: enter scores per court per game; standings with configurable tiebreakers
+ * - TV mode: optional leaderboard between games
+ * - Display windows (#display): TV view only, kept in sync with the controller tab (BroadcastChannel / storage events)
+ * - TV mode: optional game timer (warm-up/changeover gap, buzzer, auto-advance; pause/resume/adjust; survives leaving TV mode)
+ * - Print & Export: one page per game, all-games grid, per-player cards, CSV and JSON downloads
+ * - Import roster (CSV/JSON with column mapping) or a whole exported session file
+ * - Current session auto-saves to local storage; named saved sessions can be reopened/duplicated
  */
 
-type Mode = "couples" | "roundRobin";
-
-type CourtAssignment = {
-  courtNumber: number;
-  group: number[]; // couples: [a,b]; roundRobin: [a,b,c,d] where (a,b) and (c,d) are partners for that game
+type Player = {
+  name: string; // couples mode: couple name (e.g., "Ann & Bob")
+  rating?: number; // DUPR-style decimal (e.g., 3.75); Round Robin balance, ladder starting courts
+  category?: string; // free-text tag (e.g., "F", "M"); mixed doubles pairs one of each
+  arriveGame?: number; // first game they can play (late arrival)
+  leaveAfterGame?: number; // last game they can play (early departure)
 };
 
-type Round = {
+type PrintView = "perGame" | "grid" | "cards";
+
+// One participant's view of one game (personal cards, player lookup)
+type PlayerGame = {
   gameNumber: number;
-  courts: CourtAssignment[];
-  byes: number[];
+  courtNumber: number | null; // null = bye or not here
+  partners: number[]; // roundRobin teammate; empty for couples
+  opponents: number[];
+  bye: boolean;
 };
 
-/* ---------------- Utilities ---------------- */
+type LadderMove = "up" | "down" | "stay";
 
-function shuffle<T>(array: T[]): T[] {
-  const a = [...array];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
+// Everything generateSchedule + the optimizer need to rebuild a schedule exactly
+type ScheduleRecipe = {
+  mode: Mode;
+  participantCount: number;
+  courtNumbers: number[];
+  courtChanges: CourtChange[];
+  singlesCourts: number[];
+  spareCourts: boolean;
+  tournament: TournamentSettings | null; // pool play, then a playoff bracket
+  games: number;
+  ratings: (number | undefined)[];
+  availability: Availability[];
+  balanceWeight: number;
+  opponentWeight: number;
+  courtWeight: number;
+  ladderRule: LadderRule;
+  categories: (string | undefined)[];
+  mixed: boolean;
+  constraints: HardConstraint[];
+  carryOver: CarryOver | null; // league history, in this session's participant numbers
+  seed: number;
+  optimizerIterations: number; // 0 = draft only (optimizer skipped or cancelled)
+};
 
-function chunk<T>(array: T[], size: number): T[][] {
-  const out: T[][] = [];
-  for (let i = 0; i < array.length; i += size) out.push(array.slice(i, i + size));
-  return out;
-}
+// Share link payload: the recipe rebuilds the base schedule; overrides restore anything changed since
+type SharedSchedule = {
+  version: number;
+  recipe: ScheduleRecipe;
+  roster: Player[];
+  gameCount: number;
+  overrides: RoundOverride[]; // games that differ from the recipe's draft (replans, manual edits)
+};
+
+// Setup row "from game N use courts ..." as typed (parsed into a CourtChange on Generate)
+type CourtChangeDraft = { fromGameText: string; courtsText: string };
+
+// Tournament setup as typed (null = open play)
+type TournamentDraft = { poolsText: string; advanceText: string; format: BracketFormat };
+
+// A place in one game: a position on a court, or on the bye list (courtNumber null)
+type Seat = { courtNumber: number | null; index: number };
+
+// A manual edit to keep on replan: a whole court in a game, or one participant's bye
+type AssignmentLock = { gameNumber: number; courtNumber: number } | { gameNumber: number; bye: number };
+
+type TimerPhase = "changeover" | "game";
+
+// TV game timer; absolute end time while running so a reload (or leaving TV mode) doesn't lose time
+type GameTimer = {
+  phase: TimerPhase; // changeover = warm-up before the current TV game
+  endsAt: number | null; // epoch ms while running; null = paused
+  remainingMs: number; // time left when paused
+};
+
+// Everything needed to bring a session back after a reload (inputs + schedule + results + views)
+type SessionSnapshot = {
+  mode: Mode;
+  countText: string;
+  courtsText: string;
+  courtChanges: CourtChangeDraft[];
+  singlesCourtsText: string; // Round Robin courts that host 1 vs 1
+  spareCourts: boolean; // Round Robin: 2-3 leftovers play singles/cutthroat on a free court instead of sitting out
+  tournament: TournamentDraft | null;
+  gamesText: string;
+  seedText: string;
+  optimizerText: string; // optimizer time budget in seconds ("0" = skip)
+  timerMinutesText: string; // TV game timer length ("" = no timer)
+  changeoverSecondsText: string; // warm-up/changeover gap before each game
+  roster: Player[];
+  balanceWeight: number;
+  opponentWeight: number;
+  courtWeight: number;
+  ladderRule: LadderRule;
+  mixed: boolean;
+  constraints: HardConstraint[];
+  leagueWeight: number; // 0-10: how much recorded league sessions count (0 = ignore them)
+  sessionRoster: Player[];
+  numbersOnly: boolean;
+  rounds: Round[];
+  baseRounds: Round[]; // rounds exactly as the recipe produced them (before replans/edits)
+  recipe: ScheduleRecipe | null;
+  changedGames: number[]; // games rewritten by the last replan (highlighted in TV mode)
+  locks: AssignmentLock[]; // manual edits kept when the remaining games are replanned
+  tvMode: boolean;
+  tvGameIndex: number;
+  tvShowLeaderboard: boolean;
+  gameTimer: GameTimer | null;
+  scores: SessionScores;
+  bracket: Bracket | null; // playoffs, once seeded from the pool standings
+  tvShowBracket: boolean;
+  tiebreakers: Tiebreaker[];
+  scorekeeperMode: boolean;
+  scoreGameIndex: number;
+  lookupMode: boolean;
+  lookupPlayer: number | null; // participant picked in the player lookup
+};
+
+type SessionFile = {
+  version: number;
+  savedAt: string; // ISO timestamp
+  session: SessionSnapshot;
+};
+
+type SavedSession = {
+  id: string;
+  name: string;
+  file: SessionFile;
+};
+
+/* ---------------- Utilities ---------------- */
 
 function parsePositiveInt(text: string): number {
   const cleaned = (text ?? "").replace(/[^\d]/g, "");
@@ -54,335 +245,2401 @@ function parsePositiveInt(text: string): number {
   return Number.isFinite(n) ? n : 0;
 }
 
-function parseCourtsInput(text: string): { courts: number[]; error: string } {
-  const raw = (text ?? "").trim();
-  if (!raw) return { courts: [], error: 'Please enter courts (example: "8" or "1-3,5,6").' };
+function parseRosterPaste(text: string): Player[] {
+  // One name per line (spreadsheet columns paste as lines); keep only the first tab-separated cell
+  return (text ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.split("\t")[0].trim())
+    .filter(Boolean)
+    .map((name) => ({ name }));
+}
+
+function participantLabel(id: number, names: string[], numbersOnly: boolean): string {
+  const name = (names[id - 1] ?? "").trim();
+  return !numbersOnly && name ? name : String(id);
+}
+
+function labelsDash(nums: number[], label: (id: number) => string): string {
+  return (nums ?? []).map(label).join(" - ");
+}
+
+/* ---------------- Ladder rules ---------------- */
+
+const LADDER_RULES: Record<LadderRule, { label: string; description: string }> = {
+  split: {
+    label: "Split partners",
+    description: "Winners move up a court, losers move down, and the two arriving teams split so everyone gets a new partner.",
+  },
+  keepPartners: {
+    label: "Keep partners",
+    description: "Winners move up a court and losers move down as a team; partners stay together.",
+  },
+};
+
+/* ---------------- Scores + standings ---------------- */
+
+// Cutthroat: three players rotate who plays alone, so there are no fixed teams (and no team score)
+function isCutthroat(group: number[]): boolean {
+  return group.length === 3;
+}
+
+function ladderMoves(rounds: Round[], index: number): Map<number, LadderMove> {
+  // Court rank is the position in the game's court list (top court first); bye/new players get no arrow
+  const moves = new Map<number, LadderMove>();
+  const previous = rounds[index - 1];
+  const current = rounds[index];
+  if (!previous || !current) return moves;
+
+  const before = new Map<number, number>();
+  previous.courts.forEach((c, rank) => c.group.forEach((p) => before.set(p, rank)));
+  current.courts.forEach((c, rank) =>
+    c.group.forEach((p) => {
+      const was = before.get(p);
+      if (was !== undefined) moves.set(p, rank < was ? "up" : rank > was ? "down" : "stay");
+    })
+  );
+  return moves;
+}
+
+function LadderArrow(props: { move?: LadderMove }) {
+  if (props.move === "up") return <span className="text-emerald-600" title="Moved up">▲ </span>;
+  if (props.move === "down") return <span className="text-red-600" title="Moved down">▼ </span>;
+  return null;
+}
+
+function StandingsTable(props: { rows: StandingRow[]; label: (id: number) => string; large?: boolean }) {
+  const { rows, label, large } = props;
+  const cell = large ? "px-4 py-3" : "px-3 py-1.5";
+
+  return (
+    <table className={`w-full ${large ? "text-xl sm:text-2xl" : "text-sm"}`}>
+      <thead>
+        <tr className="text-left text-slate-500 border-b border-slate-200">
+          <th className={cell}>#</th>
+          <th className={cell}>Name</th>
+          <th className={`${cell} text-right`}>W</th>
+          <th className={`${cell} text-right`}>L</th>
+          <th className={`${cell} text-right`}>+/-</th>
+          <th className={`${cell} text-right`}>GP</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r, index) => {
+          const diff = r.pointsFor - r.pointsAgainst;
+          return (
+            <tr key={r.id} className="border-b border-slate-100">
+              <td className={`${cell} text-slate-500`}>{index + 1}</td>
+              <td className={`${cell} font-semibold`}>{label(r.id)}</td>
+              <td className={`${cell} text-right font-semibold`}>{r.wins}</td>
+              <td className={`${cell} text-right`}>{r.losses}</td>
+              <td className={`${cell} text-right`}>{diff > 0 ? `+${diff}` : diff}</td>
+              <td className={`${cell} text-right`}>{r.played}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+/* ---------------- Tournament (pools + playoffs) ---------------- */
+
+function matchTitle(bracket: Bracket, match: BracketMatch): string {
+  if (match.side === "final") return "Grand final";
+  const last = Math.max(...bracket.matches.filter((m) => m.side === match.side).map((m) => m.round));
+  if (match.side === "losers") return match.round === last ? "Losers final" : `Losers round ${match.round}`;
+  if (bracket.format === "double") return match.round === last ? "Winners final" : `Winners round ${match.round}`;
+  return match.round === last ? "Final" : match.round === last - 1 ? "Semifinal" : `Round ${match.round}`;
+}
+
+function bracketTeamName(bracket: Bracket, team: number | null | undefined, label: (id: number) => string): string {
+  if (team === undefined) return "TBD";
+  return team === null ? "Bye" : labelsDash(bracket.teams[team], label);
+}
+
+// Bracket columns (one per round, winners then losers then the grand final); byes are left out
+function BracketBoard(props: { bracket: Bracket; label: (id: number) => string; large?: boolean }) {
+  const { bracket, label, large } = props;
+  const status = resolveBracket(bracket);
+  const champion = bracketChampion(bracket);
+
+  const columns: { title: string; indexes: number[] }[] = [];
+  bracket.matches.forEach((m, i) => {
+    if (status[i].a === null || status[i].b === null) return;
+    const title = matchTitle(bracket, m);
+    const column = columns.find((c) => c.title === title);
+    if (column) column.indexes.push(i);
+    else columns.push({ title, indexes: [i] });
+  });
+
+  return (
+    <div>
+      {typeof champion === "number" ? (
+        <div className={`mb-3 rounded-2xl bg-amber-100 text-amber-900 px-4 py-3 font-extrabold ${large ? "text-2xl sm:text-3xl" : "text-lg"}`}>
+          🏆 Champion: {bracketTeamName(bracket, champion, label)}
+        </div>
+      ) : null}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {columns.map((column) => (
+          <div key={column.title} className="min-w-[12rem] flex-1 space-y-2">
+            <div className={`font-semibold text-slate-600 ${large ? "text-base sm:text-lg" : "text-sm"}`}>{column.title}</div>
+            {column.indexes.map((i) => {
+              const { a, b, winner } = status[i];
+              const { score, court } = bracket.matches[i];
+              const row = (team: number | null | undefined, points: number | undefined) => (
+                <div className={`flex justify-between gap-2 ${winner !== undefined && winner === team ? "font-extrabold" : ""}`}>
+                  <span className="truncate">{bracketTeamName(bracket, team, label)}</span>
+                  <span className="tabular-nums">{points ?? ""}</span>
+                </div>
+              );
+              return (
+                <div
+                  key={i}
+                  className={`rounded-xl border bg-white px-3 py-2 ${large ? "text-base sm:text-lg" : "text-sm"} ${
+                    winner === undefined && court !== null ? "border-emerald-400" : "border-slate-200"
+                  }`}
+                >
+                  {row(a, score.teamA)}
+                  {row(b, score.teamB)}
+                  {winner === undefined && court !== null ? (
+                    <div className="text-xs font-semibold text-emerald-700">Court {court}</div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ---------------- Manual edits (swap + lock) ---------------- */
+
+function swapSeats(round: Round, a: Seat, b: Seat): Round {
+  const next: Round = { ...round, courts: round.courts.map((c) => ({ ...c, group: c.group.slice() })), byes: round.byes.slice() };
+  const listOf = (seat: Seat) =>
+    seat.courtNumber === null ? next.byes : (next.courts.find((c) => c.courtNumber === seat.courtNumber)?.group ?? []);
+  const [listA, listB] = [listOf(a), listOf(b)];
+  [listA[a.index], listB[b.index]] = [listB[b.index], listA[a.index]];
+  next.byes.sort((x, y) => x - y);
+  return next;
+}
+
+function isCourtLocked(locks: AssignmentLock[], gameNumber: number, courtNumber: number): boolean {
+  return locks.some((l) => l.gameNumber === gameNumber && "courtNumber" in l && l.courtNumber === courtNumber);
+}
+
+function isByeLocked(locks: AssignmentLock[], gameNumber: number, id: number): boolean {
+  return locks.some((l) => l.gameNumber === gameNumber && "bye" in l && l.bye === id);
+}
+
+// The locked part of each game, in the shape the generator keeps as-is
+function lockedRounds(rounds: Round[], locks: AssignmentLock[]): Round[] {
+  return rounds
+    .map((r) => ({
+      gameNumber: r.gameNumber,
+      courts: r.courts.filter((c) => isCourtLocked(locks, r.gameNumber, c.courtNumber)),
+      byes: r.byes.filter((id) => isByeLocked(locks, r.gameNumber, id)),
+    }))
+    .filter((r) => r.courts.length || r.byes.length);
+}
+
+/* ---------------- Fairness report ---------------- */
+
+// 0, 1, 2, 3, 4+ games: once is expected, the warmer colors are the ones to look at
+const HEAT_CLASSES = [
+  "bg-white text-slate-300",
+  "bg-sky-100 text-slate-700",
+  "bg-amber-200 text-slate-900",
+  "bg-orange-300 text-slate-900",
+  "bg-rose-500 text-white",
+];
+
+function Heatmap(props: { title: string; players: number[]; counts: number[][]; label: (id: number) => string }) {
+  const { title, players, counts, label } = props;
+
+  return (
+    <div>
+      <div className="font-semibold">{title}</div>
+      <div className="mt-2 overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th />
+              {players.map((id) => (
+                <th key={id} className="px-1 py-1 font-semibold text-slate-500 text-center" title={label(id)}>
+                  {id}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((id, row) => (
+              <tr key={id}>
+                <th className="pr-2 py-0.5 text-left font-semibold whitespace-nowrap max-w-[10rem] truncate">{label(id)}</th>
+                {counts[row].map((count, col) => (
+                  <td
+                    key={col}
+                    title={row === col ? undefined : `${label(id)} & ${label(players[col])}: ${count}`}
+                    className={`w-7 h-7 text-center tabular-nums border border-slate-100 ${
+                      row === col ? "bg-slate-100" : HEAT_CLASSES[Math.min(count, HEAT_CLASSES.length - 1)]
+                    }`}
+                  >
+                    {row === col ? "" : count}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function FairnessReportView(props: { report: FairnessReport; mode: Mode; label: (id: number) => string }) {
+  const { report, mode, label } = props;
+  const unit = mode === "couples" ? "Couple" : "Player";
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="px-3 py-1.5">{unit}</th>
+              <th className="px-3 py-1.5 text-right">Played</th>
+              <th className="px-3 py-1.5 text-right">Byes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.players.map((id, i) => (
+              <tr key={id} className="border-b border-slate-100">
+                <td className="px-3 py-1.5 font-semibold">{label(id)}</td>
+                <td className="px-3 py-1.5 text-right">{report.played[i]}</td>
+                <td className="px-3 py-1.5 text-right">{report.byes[i]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.partners ? (
+        <Heatmap title="Partners (games together)" players={report.players} counts={report.partners} label={label} />
+      ) : null}
+      <Heatmap
+        title={mode === "couples" ? "Matchups (games against)" : "Opponents (games against)"}
+        players={report.players}
+        counts={report.opponents}
+        label={label}
+      />
+
+      <div>
+        <div className="font-semibold">Repeated pairings</div>
+        {report.repeats.length ? (
+          <ul className="mt-1 text-sm text-slate-700 space-y-0.5">
+            {report.repeats.map((r) => (
+              <li key={`${r.kind}-${r.players.join("-")}`}>
+                <span className="font-semibold">{r.players.map(label).join(" & ")}</span>{" "}
+                {r.kind === "partners" ? "partnered" : mode === "couples" ? "met" : "faced each other"} {r.games.length} times
+                (games {r.games.join(", ")})
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-1 text-sm text-slate-600">None — nobody partners or faces the same {unit.toLowerCase()} twice.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ---------------- Player schedules + exports ---------------- */
+
+function participantsIn(rounds: Round[]): number[] {
+  const ids = new Set<number>();
+  for (const round of rounds) {
+    for (const b of round.byes) ids.add(b);
+    for (const c of round.courts) for (const p of c.group) ids.add(p);
+  }
+  return Array.from(ids).sort((a, b) => a - b);
+}
+
+function playerSchedule(rounds: Round[], id: number): PlayerGame[] {
+  return rounds.map((round) => {
+    for (const court of round.courts) {
+      const [sideA, sideB] = courtSides(court.group);
+      const mine = sideA.includes(id) ? sideA : sideB.includes(id) ? sideB : null;
+      if (!mine) continue;
+      const cutthroat = isCutthroat(court.group);
+      return {
+        gameNumber: round.gameNumber,
+        courtNumber: court.courtNumber,
+        partners: cutthroat ? [] : mine.filter((p) => p !== id),
+        opponents: cutthroat ? court.group.filter((p) => p !== id) : mine === sideA ? sideB : sideA,
+        bye: false,
+      };
+    }
+    return { gameNumber: round.gameNumber, courtNumber: null, partners: [], opponents: [], bye: round.byes.includes(id) };
+  });
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function roundsToCsv(rounds: Round[], mode: Mode, label: (id: number) => string): string {
+  const side = mode === "couples" ? "Couple" : "Team";
+  const rows: (string | number)[][] = [["Game", "Court", `${side} A`, `${side} B`, "Byes"]];
+
+  for (const round of rounds) {
+    for (const court of round.courts) {
+      const [sideA, sideB] = courtSides(court.group);
+      rows.push(
+        isCutthroat(court.group)
+          ? [round.gameNumber, court.courtNumber, labelsDash(court.group, label), "(cutthroat)", ""]
+          : [round.gameNumber, court.courtNumber, labelsDash(sideA, label), labelsDash(sideB, label), ""]
+      );
+    }
+    if (round.byes.length) rows.push([round.gameNumber, "", "", "", round.byes.map(label).join("; ")]);
+  }
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function exportFileName(extension: string): string {
+  return `pickleball-schedule-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+/* ---------------- Game timer (TV mode) ---------------- */
+
+function startTimerPhase(phase: TimerPhase, lengthMs: number, now: number): GameTimer {
+  return { phase, endsAt: now + lengthMs, remainingMs: lengthMs };
+}
+
+function timerRemainingMs(timer: GameTimer, now: number): number {
+  return timer.endsAt === null ? timer.remainingMs : Math.max(0, timer.endsAt - now);
+}
+
+function formatClock(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function playBuzzer(audio: AudioContext | null, seconds: number): void {
+  if (!audio) return;
+  const oscillator = audio.createOscillator();
+  const gain = audio.createGain();
+  oscillator.type = "square";
+  oscillator.frequency.value = 220;
+  gain.gain.value = 0.25;
+  oscillator.connect(gain).connect(audio.destination);
+  oscillator.start();
+  oscillator.stop(audio.currentTime + seconds);
+}
+
+/* ---------------- Persistence (local storage) ---------------- */
+
+const CURRENT_SESSION_KEY = "pickleball-scheduler:current";
+const SAVED_SESSIONS_KEY = "pickleball-scheduler:saved";
+const LEAGUE_KEY = "pickleball-scheduler:league";
+
+// New fields need no bump: normalizeSnapshot fills in defaults for anything an older file lacks, and older rounds
+// (doubles courts only) are still valid rounds. Bump, with a step in SESSION_MIGRATIONS, only when an existing field
+// is renamed, removed or changes meaning.
+const SESSION_FORMAT_VERSION = 1;
+
+const EMPTY_SESSION: SessionSnapshot = {
+  mode: "couples",
+  countText: "",
+  courtsText: "",
+  courtChanges: [],
+  singlesCourtsText: "",
+  spareCourts: false,
+  tournament: null,
+  gamesText: "",
+  seedText: "",
+  optimizerText: "3",
+  timerMinutesText: "",
+  changeoverSecondsText: "60",
+  roster: [],
+  balanceWeight: 5,
+  opponentWeight: 3,
+  courtWeight: 2,
+  ladderRule: "split",
+  mixed: false,
+  constraints: [],
+  leagueWeight: 5,
+  sessionRoster: [],
+  numbersOnly: false,
+  rounds: [],
+  baseRounds: [],
+  recipe: null,
+  changedGames: [],
+  locks: [],
+  tvMode: false,
+  tvGameIndex: 0,
+  tvShowLeaderboard: false,
+  gameTimer: null,
+  scores: {},
+  bracket: null,
+  tvShowBracket: false,
+  tiebreakers: DEFAULT_TIEBREAKERS,
+  scorekeeperMode: false,
+  lookupMode: false,
+  lookupPlayer: null,
+  scoreGameIndex: 0,
+};
+
+// SESSION_MIGRATIONS[v] upgrades a version-v session object to version v + 1.
+const SESSION_MIGRATIONS: Record<number, (session: Record<string, unknown>) => Record<string, unknown>> = {};
+
+function isMode(value: unknown): value is Mode {
+  return value === "couples" || value === "roundRobin" || value === "ladder";
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function normalizeRounds(value: unknown): Round[] {
+  return asArray(value).map((r, index) => {
+    const round = asRecord(r);
+    return {
+      gameNumber: Number(round.gameNumber) || index + 1,
+      courts: asArray(round.courts).map((c) => {
+        const court = asRecord(c);
+        return { courtNumber: Number(court.courtNumber), group: asArray(court.group).map(Number) };
+      }),
+      byes: asArray(round.byes).map(Number),
+    };
+  });
+}
+
+function normalizeConstraints(value: unknown): HardConstraint[] {
+  const numbers = (v: unknown) => asArray(v).map(Number).filter((n) => Number.isInteger(n) && n > 0);
+  return asArray(value).flatMap((v): HardConstraint[] => {
+    const raw = asRecord(v);
+    const [a, b] = numbers(raw.players);
+    const player = Number(raw.player);
+    switch (raw.kind) {
+      case "pinPartners":
+      case "notPartners":
+      case "notOpponents":
+        return a && b ? [{ kind: raw.kind, players: [a, b] }] : [];
+      case "onlyGames":
+        return player > 0 ? [{ kind: "onlyGames", player, games: numbers(raw.games) }] : [];
+      case "onlyCourts":
+        return player > 0 ? [{ kind: "onlyCourts", player, courts: numbers(raw.courts) }] : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function renumberConstraints(constraints: HardConstraint[], renumber: (id: number) => number | null): HardConstraint[] {
+  // Rules naming a removed participant (null) are dropped
+  return constraints.flatMap((c): HardConstraint[] => {
+    if ("players" in c) {
+      const [a, b] = c.players.map(renumber);
+      return a && b ? [{ ...c, players: [a, b] }] : [];
+    }
+    const player = renumber(c.player);
+    return player ? [{ ...c, player }] : [];
+  });
+}
+
+function normalizeTournament(value: unknown): TournamentSettings | null {
+  const raw = asRecord(value);
+  if (!Number(raw.pools)) return null;
+  return {
+    pools: Number(raw.pools),
+    advance: Number(raw.advance) || 1,
+    format: raw.format === "double" ? "double" : "single",
+    poolSeed: Number(raw.poolSeed) || 0,
+  };
+}
+
+function normalizeLocks(value: unknown): AssignmentLock[] {
+  return asArray(value).flatMap((l): AssignmentLock[] => {
+    const lock = asRecord(l);
+    const gameNumber = Number(lock.gameNumber);
+    if (!Number.isInteger(gameNumber)) return [];
+    if (typeof lock.courtNumber === "number") return [{ gameNumber, courtNumber: lock.courtNumber }];
+    return typeof lock.bye === "number" ? [{ gameNumber, bye: lock.bye }] : [];
+  });
+}
+
+function normalizeBracket(value: unknown): Bracket | null {
+  const raw = asRecord(value);
+  if (!Array.isArray(raw.teams) || !Array.isArray(raw.matches)) return null;
+  return {
+    format: raw.format === "double" ? "double" : "single",
+    teams: asArray(raw.teams).map((t) => asArray(t).map(Number)),
+    matches: asArray(raw.matches).map((m) => {
+      const match = asRecord(m);
+      return { ...(match as BracketMatch), court: typeof match.court === "number" ? match.court : null, score: asRecord(match.score) };
+    }),
+  };
+}
+
+function normalizeRecipe(value: unknown): ScheduleRecipe | null {
+  const raw = asRecord(value);
+  if (!isMode(raw.mode)) return null;
+
+  return {
+    mode: raw.mode,
+    participantCount: Number(raw.participantCount) || 0,
+    courtNumbers: asArray(raw.courtNumbers).map(Number),
+    courtChanges: asArray(raw.courtChanges).map((c) => {
+      const change = asRecord(c);
+      return { fromGame: Number(change.fromGame) || 0, courts: asArray(change.courts).map(Number) };
+    }),
+    singlesCourts: asArray(raw.singlesCourts).map(Number),
+    spareCourts: raw.spareCourts === true,
+    tournament: normalizeTournament(raw.tournament),
+    games: Number(raw.games) || 0,
+    // JSON turns missing ratings into null
+    ratings: asArray(raw.ratings).map((r) => (typeof r === "number" ? r : undefined)),
+    availability: asArray(raw.availability).map((a) => asRecord(a) as Availability),
+    balanceWeight: Number(raw.balanceWeight) || 0,
+    opponentWeight: Number(raw.opponentWeight) || 0,
+    courtWeight: Number(raw.courtWeight) || 0,
+    ladderRule: raw.ladderRule === "keepPartners" ? "keepPartners" : "split",
+    categories: asArray(raw.categories).map((c) => (typeof c === "string" ? c : undefined)),
+    mixed: raw.mixed === true,
+    constraints: normalizeConstraints(raw.constraints),
+    carryOver: normalizeCarryOver(raw.carryOver),
+    seed: Number(raw.seed) || 0,
+    optimizerIterations: Number(raw.optimizerIterations) || 0,
+  };
+}
+
+function normalizeCarryOver(value: unknown): CarryOver | null {
+  const raw = asRecord(value);
+  if (!Array.isArray(raw.partners)) return null;
+  const weights = (list: unknown) => asArray(list).map((t) => asArray(t).map(Number) as [number, number, number]);
+  return { partners: weights(raw.partners), opponents: weights(raw.opponents), lastByes: asArray(raw.lastByes).map(Number) };
+}
+
+function normalizeGameTimer(value: unknown): GameTimer | null {
+  const raw = asRecord(value);
+  if (raw.phase !== "changeover" && raw.phase !== "game") return null;
+  return {
+    phase: raw.phase,
+    endsAt: typeof raw.endsAt === "number" ? raw.endsAt : null,
+    remainingMs: Math.max(0, Number(raw.remainingMs) || 0),
+  };
+}
+
+function normalizeSnapshot(raw: Record<string, unknown>): SessionSnapshot {
+  // Start from defaults so fields added in later versions always exist
+  const merged = { ...EMPTY_SESSION, ...raw } as SessionSnapshot;
+  const tiebreakers = asArray(raw.tiebreakers).filter((t): t is Tiebreaker => typeof t === "string" && t in TIEBREAKERS);
+
+  return {
+    ...merged,
+    mode: isMode(merged.mode) ? merged.mode : "couples",
+    ladderRule: merged.ladderRule === "keepPartners" ? "keepPartners" : "split",
+    mixed: merged.mixed === true,
+    spareCourts: merged.spareCourts === true,
+    tournament: raw.tournament
+      ? {
+          poolsText: String(asRecord(raw.tournament).poolsText ?? ""),
+          advanceText: String(asRecord(raw.tournament).advanceText ?? ""),
+          format: asRecord(raw.tournament).format === "double" ? "double" : "single",
+        }
+      : null,
+    bracket: normalizeBracket(raw.bracket),
+    constraints: normalizeConstraints(raw.constraints),
+    courtChanges: asArray(raw.courtChanges).map((c) => {
+      const change = asRecord(c);
+      return { fromGameText: String(change.fromGameText ?? ""), courtsText: String(change.courtsText ?? "") };
+    }),
+    roster: asArray(raw.roster).map((p) => asRecord(p) as Player),
+    sessionRoster: asArray(raw.sessionRoster).map((p) => asRecord(p) as Player),
+    rounds: normalizeRounds(raw.rounds),
+    baseRounds: normalizeRounds(raw.baseRounds),
+    recipe: normalizeRecipe(raw.recipe),
+    gameTimer: normalizeGameTimer(raw.gameTimer),
+    changedGames: asArray(raw.changedGames).map(Number),
+    lookupPlayer: typeof raw.lookupPlayer === "number" ? raw.lookupPlayer : null,
+    locks: normalizeLocks(raw.locks),
+    scores: asRecord(raw.scores) as SessionScores,
+    tiebreakers: tiebreakers.length ? tiebreakers : DEFAULT_TIEBREAKERS,
+  };
+}
+
+function toSessionFile(session: SessionSnapshot): SessionFile {
+  return { version: SESSION_FORMAT_VERSION, savedAt: new Date().toISOString(), session };
+}
+
+function readSessionFile(raw: unknown): SessionSnapshot | null {
+  const file = asRecord(raw);
+  let version = Number(file.version);
+  let session = asRecord(file.session);
+  if (!Number.isInteger(version) || version < 1 || version > SESSION_FORMAT_VERSION) return null;
+
+  while (version < SESSION_FORMAT_VERSION) {
+    const migrate = SESSION_MIGRATIONS[version];
+    if (!migrate) return null;
+    session = migrate(session);
+    version += 1;
+  }
+
+  return normalizeSnapshot(session);
+}
+
+function readStorageJson(key: string): unknown {
+  try {
+    const text = window.localStorage.getItem(key);
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStorageJson(key: string, value: unknown): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // storage full or unavailable (private browsing): keep running without persistence
+  }
+}
+
+function loadCurrentSession(): SessionSnapshot {
+  return readSessionFile(readStorageJson(CURRENT_SESSION_KEY)) ?? EMPTY_SESSION;
+}
+
+function loadSavedSessions(): SavedSession[] {
+  return asArray(readStorageJson(SAVED_SESSIONS_KEY))
+    .map((entry) => asRecord(entry))
+    .filter((entry) => typeof entry.id === "string" && readSessionFile(entry.file) !== null)
+    .map((entry) => ({ id: String(entry.id), name: String(entry.name ?? ""), file: entry.file as SessionFile }));
+}
+
+function loadLeague(): LeagueSession[] {
+  return asArray(readStorageJson(LEAGUE_KEY)).flatMap((entry): LeagueSession[] => {
+    const raw = asRecord(entry);
+    if (typeof raw.id !== "string" || !isMode(raw.mode)) return [];
+    return [
+      {
+        id: raw.id,
+        date: String(raw.date ?? ""),
+        mode: raw.mode,
+        names: asArray(raw.names).map((n) => String(n ?? "")),
+        rounds: normalizeRounds(raw.rounds),
+        scores: asRecord(raw.scores) as SessionScores,
+      },
+    ];
+  });
+}
+
+function newSessionId(): string {
+  // crypto.randomUUID needs a secure context, which a TV on the local network often isn't
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function formatSavedAt(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+/* ---------------- Roster import (CSV / JSON) ---------------- */
+
+type RosterFileResult =
+  | { kind: "roster"; draft: RosterImport }
+  | { kind: "session"; session: SessionSnapshot }
+  | { kind: "error"; message: string };
+
+const MAX_IMPORT_ERRORS = 8;
+
+function csvRosterImport(fileName: string, text: string): RosterFileResult {
+  const draft = csvRosterDraft(fileName, text);
+  return draft ? { kind: "roster", draft } : { kind: "error", message: `"${fileName}" has no rows to import.` };
+}
+
+function jsonRosterImport(fileName: string, raw: unknown): RosterFileResult {
+  // The app's own export (SessionFile) restores everything, settings included
+  const file = asRecord(raw);
+  if ("session" in file && "version" in file) {
+    const session = readSessionFile(raw);
+    if (!session) return { kind: "error", message: `"${fileName}" is a session file from a newer or unknown version.` };
+    return { kind: "session", session };
+  }
+
+  // Otherwise: a list of players, or { mode?, courts?, games?, players: [...] }
+  const entries = Array.isArray(raw) ? raw : asArray(file.players ?? file.roster);
+  if (!entries.length) {
+    return { kind: "error", message: `"${fileName}" has no players. Expected a list, or an object with "players".` };
+  }
+
+  const objects = entries.map((e) => (typeof e === "string" ? { name: e } : asRecord(e)));
+  const headers = Array.from(new Set(objects.flatMap((o) => Object.keys(o))));
+  const rows = objects.map((o) => headers.map((h) => (o[h] === undefined || o[h] === null ? "" : String(o[h]))));
+
+  const settings: RosterImport["settings"] = {};
+  if (isMode(file.mode)) settings.mode = file.mode;
+  if (Array.isArray(file.courts)) settings.courtsText = file.courts.map(Number).join(",");
+  else if (file.courts !== undefined) settings.courtsText = String(file.courts);
+  if (file.games !== undefined) settings.gamesText = String(file.games);
+
+  return {
+    kind: "roster",
+    draft: { fileName, headers, rows, firstRow: 1, mapping: guessImportMapping(headers), settings },
+  };
+}
+
+function readRosterFile(fileName: string, text: string): RosterFileResult {
+  if (!/\.json$/i.test(fileName) && !/^\s*[[{]/.test(text)) return csvRosterImport(fileName, text);
+  try {
+    return jsonRosterImport(fileName, JSON.parse(text));
+  } catch {
+    return { kind: "error", message: `"${fileName}" is not valid JSON.` };
+  }
+}
+
+/* ---------------- Share links ---------------- */
+
+const SHARE_HASH_PREFIX = "#share=";
+const LOOKUP_HASH_PREFIX = "#players="; // same payload; opens straight into the player lookup (for phones)
+const SHARE_FORMAT_VERSION = 1;
+
+function shareUrlFor(shared: SharedSchedule, prefix = SHARE_HASH_PREFIX): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${prefix}${encodeSharePayload(shared)}`;
+}
+
+function isLookupLink(): boolean {
+  return window.location.hash.startsWith(LOOKUP_HASH_PREFIX);
+}
+
+function readShareFromLocation(): SharedSchedule | "invalid" | null {
+  const hash = window.location.hash;
+  const prefix = [SHARE_HASH_PREFIX, LOOKUP_HASH_PREFIX].find((p) => hash.startsWith(p));
+  if (!prefix) return null;
+
+  try {
+    const raw = asRecord(decodeSharePayload(hash.slice(prefix.length)));
+    const recipe = normalizeRecipe(raw.recipe);
+    if (raw.version !== SHARE_FORMAT_VERSION || !recipe) return "invalid";
+
+    return {
+      version: SHARE_FORMAT_VERSION,
+      recipe,
+      roster: asArray(raw.roster).map((p) => asRecord(p) as Player),
+      gameCount: Number(raw.gameCount) || recipe.games,
+      overrides: asArray(raw.overrides) as RoundOverride[],
+    };
+  } catch {
+    return "invalid";
+  }
+}
+
+function generateFromRecipe(
+  recipe: ScheduleRecipe,
+  history?: Round[],
+  results?: SessionScores,
+  locked?: Round[]
+): { rounds: Round[]; error: string } {
+  const args = { ...recipe, carryOver: recipe.carryOver ?? undefined, history, results, locked };
+  if (recipe.tournament) return generatePoolPlay(args, recipe.tournament);
+  return generateSchedule(args);
+}
+
+function optimizeRequestFor(
+  recipe: ScheduleRecipe,
+  rounds: Round[],
+  frozenGames: number,
+  timeBudgetMs: number,
+  locked?: Round[]
+): OptimizeRequest {
+  return {
+    mode: recipe.mode,
+    rounds,
+    frozenGames,
+    locked,
+    ratings: recipe.ratings,
+    balanceWeight: recipe.balanceWeight,
+    opponentWeight: recipe.opponentWeight,
+    courtWeight: recipe.courtWeight,
+    categories: recipe.mixed && recipe.mode === "roundRobin" ? recipe.categories.map(normalizeCategory) : [],
+    constraints: recipe.constraints,
+    carryOver: recipe.carryOver ?? undefined,
+    seed: recipe.seed,
+    timeBudgetMs,
+  };
+}
+
+function sharedSnapshot(shared: SharedSchedule): SessionSnapshot {
+  const { recipe } = shared;
+  const draft = generateFromRecipe(recipe).rounds;
+
+  return {
+    ...EMPTY_SESSION,
+    mode: recipe.mode,
+    countText: String(recipe.participantCount),
+    courtsText: courtsToText(recipe.courtNumbers),
+    courtChanges: recipe.courtChanges.map((c) => ({ fromGameText: String(c.fromGame), courtsText: courtsToText(c.courts) })),
+    singlesCourtsText: recipe.singlesCourts.join(","),
+    spareCourts: recipe.spareCourts,
+    tournament: recipe.tournament
+      ? {
+          poolsText: String(recipe.tournament.pools),
+          advanceText: String(recipe.tournament.advance),
+          format: recipe.tournament.format,
+        }
+      : null,
+    // Ladder links hold the games played so far; the recipe has the planned length
+    gamesText: String(recipe.mode === "ladder" ? recipe.games : shared.gameCount),
+    seedText: String(recipe.seed),
+    roster: shared.roster,
+    sessionRoster: shared.roster,
+    balanceWeight: recipe.balanceWeight,
+    opponentWeight: recipe.opponentWeight,
+    courtWeight: recipe.courtWeight,
+    ladderRule: recipe.ladderRule,
+    mixed: recipe.mixed,
+    constraints: recipe.constraints,
+    // Until the optimizer replay finishes, show the draft with the shared edits applied
+    rounds: applyOverrides(draft, shared.overrides, shared.gameCount),
+    baseRounds: draft,
+    recipe,
+  };
+}
+
+// Runs the optimizer in a Web Worker; returns null when workers aren't available
+function runOptimizerWorker(
+  request: OptimizeRequest,
+  onProgress: (progress: OptimizeProgress) => void,
+  onDone: (result: { rounds: Round[]; iterations: number }) => void
+): Worker | null {
+  if (typeof Worker === "undefined") return null;
+
+  const worker = new Worker(new URL("./scheduler/optimizer.worker.ts", import.meta.url), { type: "module" });
+  const finish = (result: { rounds: Round[]; iterations: number }) => {
+    worker.terminate();
+    onDone(result);
+  };
+
+  worker.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+    const message = event.data;
+    if (message.type === "progress") onProgress(message.progress);
+    else finish(message.result);
+  };
+  worker.onerror = () => finish({ rounds: request.rounds, iterations: 0 });
+  worker.postMessage(request);
+
+  return worker;
+}
+
+/* ---------------- Display windows (controller -> TV sync) ---------------- */
+
+const DISPLAY_HASH = "#display";
+const SYNC_CHANNEL = "pickleball-scheduler:sync";
+
+// Controllers send the whole session on every change; displays announce themselves to get the current one
+type SyncMessage = { type: "session"; file: SessionFile } | { type: "hello" } | { type: "bye" };
+
+type SyncChannel = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+function isDisplayWindow(): boolean {
+  return window.location.hash === DISPLAY_HASH;
+}
+
+function openSyncChannel(onMessage: (message: SyncMessage) => void): SyncChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return { post: (message) => channel.postMessage(message), close: () => channel.close() };
+  }
+
+  // No BroadcastChannel: the controller's auto-save still reaches other tabs as storage events
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== CURRENT_SESSION_KEY || !event.newValue) return;
+    try {
+      onMessage({ type: "session", file: JSON.parse(event.newValue) as SessionFile });
+    } catch {
+      // half-written or foreign value; the next save will come through
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return { post: () => {}, close: () => window.removeEventListener("storage", onStorage) };
+}
+
+function openDisplayWindow(): void {
+  window.open(window.location.pathname + window.location.search + DISPLAY_HASH, "pickleball-display");
+}
+
+/* ---------------- App UI ---------------- */
+
+const RULE_KINDS: Record<HardConstraint["kind"], { label: string; modes: Mode[] }> = {
+  pinPartners: { label: "Always partners", modes: ["roundRobin"] },
+  notPartners: { label: "Never partners", modes: ["roundRobin"] },
+  notOpponents: { label: "Never face each other", modes: ["couples", "roundRobin"] },
+  onlyGames: { label: "Only plays games", modes: ["couples", "roundRobin", "ladder"] },
+  onlyCourts: { label: "Only plays on courts", modes: ["couples", "roundRobin"] },
+};
+
+const MODE_TITLES: Record<Mode, string> = {
+  couples: "Couples Assignments",
+  roundRobin: "Round Robin Assignments",
+  ladder: "King of the Court",
+};
+
+export default function App() {
+  // restored once on load; each piece of state below starts from it
+  // a share link in the URL wins over the auto-saved session
+  const [shared] = useState<SharedSchedule | "invalid" | null>(readShareFromLocation);
+  // a display window only mirrors the controller's TV view (no controls, never saves)
+  const [displayOnly] = useState<boolean>(isDisplayWindow);
+  const [restored] = useState<SessionSnapshot>(() =>
+    shared && shared !== "invalid" ? { ...sharedSnapshot(shared), lookupMode: isLookupLink() } : loadCurrentSession()
+  );
+
+  const [mode, setMode] = useState<Mode>(restored.mode);
+
+  // text inputs so phone keyboard allows "-" and ","
+  const [countText, setCountText] = useState<string>(restored.countText);
+  const [courtsText, setCourtsText] = useState<string>(restored.courtsText);
+  const [courtChanges, setCourtChanges] = useState<CourtChangeDraft[]>(restored.courtChanges);
+  const [singlesCourtsText, setSinglesCourtsText] = useState<string>(restored.singlesCourtsText);
+  const [spareCourts, setSpareCourts] = useState<boolean>(restored.spareCourts);
+  const [tournament, setTournament] = useState<TournamentDraft | null>(restored.tournament);
+  const [gamesText, setGamesText] = useState<string>(restored.gamesText);
+  const [seedText, setSeedText] = useState<string>(restored.seedText);
+  const [optimizerText, setOptimizerText] = useState<string>(restored.optimizerText);
+  const [timerMinutesText, setTimerMinutesText] = useState<string>(restored.timerMinutesText);
+  const [changeoverSecondsText, setChangeoverSecondsText] = useState<string>(restored.changeoverSecondsText);
+
+  // roster row i is participant #(i+1); names are optional labels
+  const [roster, setRoster] = useState<Player[]>(restored.roster);
+  const [pasteText, setPasteText] = useState<string>("");
+  const [rosterImport, setRosterImport] = useState<RosterImport | null>(null);
+  const [balanceWeight, setBalanceWeight] = useState<number>(restored.balanceWeight);
+  const [opponentWeight, setOpponentWeight] = useState<number>(restored.opponentWeight);
+  const [courtWeight, setCourtWeight] = useState<number>(restored.courtWeight);
+  const [ladderRule, setLadderRule] = useState<LadderRule>(restored.ladderRule);
+  const [mixed, setMixed] = useState<boolean>(restored.mixed);
+  const [constraints, setConstraints] = useState<HardConstraint[]>(restored.constraints);
+  const [sessionRoster, setSessionRoster] = useState<Player[]>(restored.sessionRoster);
+  const [numbersOnly, setNumbersOnly] = useState<boolean>(restored.numbersOnly);
+
+  const [rounds, setRounds] = useState<Round[]>(restored.rounds);
+  const [baseRounds, setBaseRounds] = useState<Round[]>(restored.baseRounds);
+  const [recipe, setRecipe] = useState<ScheduleRecipe | null>(restored.recipe);
+  const [shareUrl, setShareUrl] = useState<string>("");
+  const [changedGames, setChangedGames] = useState<number[]>(restored.changedGames);
+  const [locks, setLocks] = useState<AssignmentLock[]>(restored.locks);
+  const [editGameIndex, setEditGameIndex] = useState<number>(0);
+  const [pickedSeat, setPickedSeat] = useState<Seat | null>(null); // tap-to-swap: the first of the two
+  const [error, setError] = useState<string>(shared === "invalid" ? "This share link could not be read." : "");
+  const [tvMode, setTvMode] = useState<boolean>(restored.tvMode);
+  const [tvGameIndex, setTvGameIndex] = useState<number>(restored.tvGameIndex);
+  const [tvShowLeaderboard, setTvShowLeaderboard] = useState<boolean>(restored.tvShowLeaderboard);
+  const [gameTimer, setGameTimer] = useState<GameTimer | null>(restored.gameTimer);
+  const [timerClock, setTimerClock] = useState<number>(() => Date.now());
+  const audioRef = useRef<AudioContext | null>(null);
+  const buzzedAtRef = useRef<number | null>(null); // display windows: the timer end already buzzed for
+  const [soundOn, setSoundOn] = useState<boolean>(false);
+  const [showFairness, setShowFairness] = useState<boolean>(false);
+
+  // other windows on this machine (display windows, or the controller when this is a display)
+  const syncRef = useRef<SyncChannel | null>(null);
+  const [displayCount, setDisplayCount] = useState<number>(0);
+  const [printView, setPrintView] = useState<PrintView | null>(null);
+
+  // scores live next to rounds; cleared whenever a new schedule is generated
+  const [scores, setScores] = useState<SessionScores>(restored.scores);
+  const [tiebreakers, setTiebreakers] = useState<Tiebreaker[]>(restored.tiebreakers);
+  const [scorekeeperMode, setScorekeeperMode] = useState<boolean>(restored.scorekeeperMode);
+  const [lookupMode, setLookupMode] = useState<boolean>(restored.lookupMode);
+  const [lookupPlayer, setLookupPlayer] = useState<number | null>(restored.lookupPlayer);
+  const [lookupSearch, setLookupSearch] = useState<string>("");
+  const [scoreGameIndex, setScoreGameIndex] = useState<number>(restored.scoreGameIndex);
+  const [bracket, setBracket] = useState<Bracket | null>(restored.bracket);
+  const [tvShowBracket, setTvShowBracket] = useState<boolean>(restored.tvShowBracket);
+
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>(loadSavedSessions);
+  const [saveName, setSaveName] = useState<string>("");
+  const [league, setLeague] = useState<LeagueSession[]>(loadLeague); // most recent first
+  const [leagueWeight, setLeagueWeight] = useState<number>(restored.leagueWeight);
+  const [showSeason, setShowSeason] = useState<boolean>(false);
+
+  // hard rule form
+  const [ruleKind, setRuleKind] = useState<HardConstraint["kind"]>("pinPartners");
+  const [rulePickA, setRulePickA] = useState<string>("");
+  const [rulePickB, setRulePickB] = useState<string>("");
+  const [ruleListText, setRuleListText] = useState<string>("");
+
+  // late arrival / early departure form
+  const [availabilityPick, setAvailabilityPick] = useState<string>("");
+  const [arriveText, setArriveText] = useState<string>("");
+  const [leaveText, setLeaveText] = useState<string>("");
+  const [replanFromText, setReplanFromText] = useState<string>("");
+
+  // whole-session optimizer running in a Web Worker (null when idle)
+  const optimizerRef = useRef<Worker | null>(null);
+  const [optimizing, setOptimizing] = useState<OptimizeProgress | null>(() =>
+    shared && shared !== "invalid" && shared.recipe.optimizerIterations
+      ? { fraction: 0, repeats: countRepeats(restored.rounds, restored.mode) }
+      : null
+  );
+
+  useEffect(() => () => optimizerRef.current?.terminate(), []);
+
+  // Opening a share link: replay the optimizer for exactly as many iterations as the sender ran
+  useEffect(() => {
+    if (!shared) return;
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    if (shared === "invalid" || !shared.recipe.optimizerIterations) return;
+
+    const draft = generateFromRecipe(shared.recipe).rounds;
+    const request = { ...optimizeRequestFor(shared.recipe, draft, 0, 0), maxIterations: shared.recipe.optimizerIterations };
+    const worker = runOptimizerWorker(request, setOptimizing, ({ rounds: optimized }) => {
+      optimizerRef.current = null;
+      setOptimizing(null);
+      setBaseRounds(optimized);
+      setRounds(applyOverrides(optimized, shared.overrides, shared.gameCount));
+    });
+    optimizerRef.current = worker;
+
+    return () => worker?.terminate();
+  }, [shared]);
+
+  const snapshot = useMemo<SessionSnapshot>(
+    () => ({
+      mode,
+      countText,
+      courtsText,
+      courtChanges,
+      singlesCourtsText,
+      spareCourts,
+      tournament,
+      gamesText,
+      seedText,
+      optimizerText,
+      timerMinutesText,
+      changeoverSecondsText,
+      roster,
+      balanceWeight,
+      opponentWeight,
+      courtWeight,
+      ladderRule,
+      mixed,
+      constraints,
+      leagueWeight,
+      sessionRoster,
+      numbersOnly,
+      rounds,
+      baseRounds,
+      recipe,
+      changedGames,
+      locks,
+      tvMode,
+      tvGameIndex,
+      tvShowLeaderboard,
+      gameTimer,
+      scores,
+      bracket,
+      tvShowBracket,
+      tiebreakers,
+      scorekeeperMode,
+      scoreGameIndex,
+      lookupMode,
+      lookupPlayer,
+    }),
+    [
+      mode,
+      countText,
+      courtsText,
+      courtChanges,
+      singlesCourtsText,
+      spareCourts,
+      tournament,
+      gamesText,
+      seedText,
+      optimizerText,
+      timerMinutesText,
+      changeoverSecondsText,
+      roster,
+      balanceWeight,
+      opponentWeight,
+      courtWeight,
+      ladderRule,
+      mixed,
+      constraints,
+      leagueWeight,
+      sessionRoster,
+      numbersOnly,
+      rounds,
+      baseRounds,
+      recipe,
+      changedGames,
+      locks,
+      tvMode,
+      tvGameIndex,
+      tvShowLeaderboard,
+      gameTimer,
+      scores,
+      bracket,
+      tvShowBracket,
+      tiebreakers,
+      scorekeeperMode,
+      scoreGameIndex,
+      lookupMode,
+      lookupPlayer,
+    ]
+  );
+
+  const onSyncMessage = useEffectEvent((message: SyncMessage) => {
+    if (displayOnly) {
+      const session = message.type === "session" ? readSessionFile(message.file) : null;
+      if (session) applySession(session);
+      return;
+    }
+    if (message.type === "hello") {
+      setDisplayCount((n) => n + 1);
+      syncRef.current?.post({ type: "session", file: toSessionFile(snapshot) });
+    } else if (message.type === "bye") {
+      setDisplayCount((n) => Math.max(0, n - 1));
+    }
+  });
+
+  useEffect(() => {
+    const sync = openSyncChannel((message) => onSyncMessage(message));
+    syncRef.current = sync;
+    const leave = () => sync.post({ type: "bye" });
+    if (displayOnly) {
+      sync.post({ type: "hello" });
+      window.addEventListener("pagehide", leave);
+    }
+
+    return () => {
+      if (displayOnly) {
+        leave();
+        window.removeEventListener("pagehide", leave);
+      }
+      syncRef.current = null;
+      sync.close();
+    };
+  }, [displayOnly]);
+
+  // Auto-save whenever anything in the session changes, and keep display windows in step
+  useEffect(() => {
+    if (displayOnly) return;
+    const file = toSessionFile(snapshot);
+    writeStorageJson(CURRENT_SESSION_KEY, file);
+    syncRef.current?.post({ type: "session", file });
+  }, [snapshot, displayOnly]);
+
+  useEffect(() => {
+    if (displayOnly) return;
+    writeStorageJson(SAVED_SESSIONS_KEY, savedSessions);
+  }, [savedSessions, displayOnly]);
+
+  useEffect(() => {
+    if (displayOnly) return;
+    writeStorageJson(LEAGUE_KEY, league);
+  }, [league, displayOnly]);
+
+  const gameLengthMs = parsePositiveInt(timerMinutesText) * 60_000;
+  const changeoverMs = parsePositiveInt(changeoverSecondsText) * 1000;
+
+  // Game timer: tick while running; at zero buzz, then changeover -> game, or game -> next game's changeover
+  useEffect(() => {
+    if (!gameTimer || gameTimer.endsAt === null) return;
+    const endsAt = gameTimer.endsAt;
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+      setTimerClock(now);
+      if (now < endsAt) return;
+      if (displayOnly) {
+        // The controller moves the timer on; a display just buzzes once at zero
+        if (buzzedAtRef.current !== endsAt) playBuzzer(audioRef.current, gameTimer.phase === "changeover" ? 0.4 : 1.5);
+        buzzedAtRef.current = endsAt;
+        return;
+      }
+      if (gameLengthMs <= 0) {
+        setGameTimer(null); // length cleared while running: stop rather than race through the games
+        return;
+      }
+
+      if (gameTimer.phase === "changeover") {
+        playBuzzer(audioRef.current, 0.4);
+        setGameTimer(startTimerPhase("game", gameLengthMs, now));
+        return;
+      }
+
+      playBuzzer(audioRef.current, 1.5);
+      if (tvGameIndex + 1 >= rounds.length) {
+        setGameTimer(null);
+        return;
+      }
+      setTvGameIndex(tvGameIndex + 1);
+      setGameTimer(
+        changeoverMs > 0 ? startTimerPhase("changeover", changeoverMs, now) : startTimerPhase("game", gameLengthMs, now)
+      );
+    }, 250);
+    return () => window.clearInterval(interval);
+  }, [gameTimer, gameLengthMs, changeoverMs, tvGameIndex, rounds.length, displayOnly]);
+
+  const countLabel = useMemo(() => (mode === "couples" ? "Number of couples" : "Number of players"), [mode]);
+  const nameLabel = mode === "couples" ? "Couple name" : "Player name";
+  const perCourtHint = useMemo(
+    () =>
+      mode === "couples"
+        ? "2 couples per court (4 players)"
+        : mode === "ladder"
+          ? "4 players per court; winners move up, losers move down"
+          : "4 players per court",
+    [mode]
+  );
+  const feasibility = useMemo(() => {
+    // Only once count, courts and games all parse; the generator reports anything else on Generate
+    const participantCount = parsePositiveInt(countText);
+    const games = parsePositiveInt(gamesText);
+    const parsedCourts = parseCourtsInput(courtsText);
+    const singles = singlesCourtsText.trim() ? parseNumberList(singlesCourtsText) : [];
+    if (!participantCount || !games || parsedCourts.error || !singles) return null;
+    return checkFeasibility({ mode, participantCount, courtNumbers: parsedCourts.courts, games, singlesCourts: singles, spareCourts });
+  }, [mode, countText, courtsText, gamesText, singlesCourtsText, spareCourts]);
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    const total = parsePositiveInt(countText);
+    for (let i = 0; i < total; i++) {
+      const category = normalizeCategory(roster[i]?.category);
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort(([a], [b]) => (a && b ? a.localeCompare(b) : a ? -1 : 1));
+  }, [roster, countText]);
+  const ruleKinds = (Object.keys(RULE_KINDS) as HardConstraint["kind"][]).filter((k) => RULE_KINDS[k].modes.includes(mode));
+  const activeRuleKind = ruleKinds.includes(ruleKind) ? ruleKind : ruleKinds[0];
+  const rosterLabel = (id: number) => participantLabel(id, roster.map((p) => p.name), false);
+  const importPreview = useMemo(() => (rosterImport ? rosterFromImport(rosterImport) : null), [rosterImport]);
+  const importSettingsText = rosterImport
+    ? [
+        rosterImport.settings.mode && `mode ${rosterImport.settings.mode === "couples" ? "Couples" : "Round Robin"}`,
+        rosterImport.settings.courtsText !== undefined && `courts ${rosterImport.settings.courtsText}`,
+        rosterImport.settings.gamesText !== undefined && `games ${rosterImport.settings.gamesText}`,
+      ]
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+  function stopOptimizer(): void {
+    optimizerRef.current?.terminate();
+    optimizerRef.current = null;
+    setOptimizing(null);
+  }
+
+  // Improve a draft off the main thread; onDone gets the draft back (0 iterations) when the optimizer is skipped or fails
+  function startOptimizer(request: OptimizeRequest, onDone: (result: { rounds: Round[]; iterations: number }) => void): void {
+    stopOptimizer();
+
+    const worker =
+      request.timeBudgetMs > 0
+        ? runOptimizerWorker(request, setOptimizing, (result) => {
+            optimizerRef.current = null;
+            setOptimizing(null);
+            onDone(result);
+          })
+        : null;
+
+    if (!worker) {
+      onDone({ rounds: request.rounds, iterations: 0 });
+      return;
+    }
+
+    optimizerRef.current = worker;
+    setOptimizing({ fraction: 0, repeats: countRepeats(request.rounds, request.mode) });
+  }
+
+  function currentRecipe(seed: number): ScheduleRecipe | { error: string } {
+    const parsedCourts = parseCourtsInput(courtsText);
+    if (parsedCourts.error) return { error: parsedCourts.error };
+
+    const changes: CourtChange[] = [];
+    for (const [i, draft] of courtChanges.entries()) {
+      const fromGame = parsePositiveInt(draft.fromGameText);
+      if (!fromGame) return { error: `Court change ${i + 1}: enter the game it starts from.` };
+      const parsed = parseCourtsInput(draft.courtsText);
+      if (parsed.error) return { error: `Court change ${i + 1}: ${parsed.error}` };
+      changes.push({ fromGame, courts: parsed.courts });
+    }
+
+    const singles = singlesCourtsText.trim() ? parseNumberList(singlesCourtsText) : [];
+    if (!singles) return { error: 'Enter singles courts as numbers or ranges (example: "7,8").' };
+
+    let settings: TournamentSettings | null = null;
+    if (tournament && mode !== "ladder") {
+      const poolCount = parsePositiveInt(tournament.poolsText);
+      const advance = parsePositiveInt(tournament.advanceText);
+      if (!poolCount) return { error: "Please enter the number of pools." };
+      if (!advance) return { error: "Please enter how many from each pool go on to the playoffs." };
+      // The pool split follows the session seed, so replans (which offset the seed) keep the same pools
+      settings = { pools: poolCount, advance, format: tournament.format, poolSeed: parsePositiveInt(seedText) || seed };
+    }
+
+    return {
+      mode,
+      participantCount: parsePositiveInt(countText),
+      courtNumbers: parsedCourts.courts,
+      courtChanges: changes,
+      singlesCourts: mode === "roundRobin" ? singles : [],
+      spareCourts: mode === "roundRobin" && spareCourts,
+      tournament: settings,
+      games: parsePositiveInt(gamesText),
+      ratings: roster.map((p) => p.rating),
+      availability: roster.map((p) => ({ arriveGame: p.arriveGame, leaveAfterGame: p.leaveAfterGame })),
+      balanceWeight,
+      opponentWeight,
+      courtWeight,
+      ladderRule,
+      categories: roster.map((p) => p.category),
+      mixed,
+      constraints,
+      // Recorded league sessions follow named players into this one; weight 0 plans the session on its own
+      carryOver: league.length && leagueWeight > 0 ? carryOverFor(league, roster.map((p) => p.name), mode, leagueWeight) : null,
+      seed,
+      optimizerIterations: 0,
+    };
+  }
+
+  function handleGenerate(): void {
+    const seed = parsePositiveInt(seedText) || randomSeed();
+    setSeedText(String(seed));
+
+    const next = currentRecipe(seed);
+    if ("error" in next) {
+      setError(next.error);
+      setRounds([]);
+      return;
+    }
+
+    const result = generateFromRecipe(next);
+
+    setError(result.error);
+    setRounds(result.rounds);
+    setBaseRounds(result.rounds);
+    setRecipe(result.error ? null : next);
+    setShareUrl("");
+    setChangedGames([]);
+    setLocks([]);
+    setSessionRoster(roster);
+    setScores({});
+    setBracket(null);
+    setTvShowBracket(false);
+    setScoreGameIndex(0);
+    setTvGameIndex(0);
+    setGameTimer(null);
+
+    if (result.error) return;
+
+    // The draft stays in place (and can be used as-is) if the optimizer is cancelled; ladder games follow results instead,
+    // and pool play stays with the generator (the optimizer would mix the pools)
+    const seconds = mode === "ladder" || next.tournament ? 0 : parsePositiveInt(optimizerText);
+    startOptimizer(optimizeRequestFor(next, result.rounds, 0, seconds * 1000), ({ rounds: optimized, iterations }) => {
+      setRounds(optimized);
+      setBaseRounds(optimized);
+      setRecipe({ ...next, optimizerIterations: iterations });
+      setTvMode(true);
+    });
+  }
+
+  function updateCourtChange(index: number, patch: Partial<CourtChangeDraft>): void {
+    setCourtChanges((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }
+
+  // Keep the count in step with the roster so names and numbers line up
+  function updateRoster(next: Player[]): void {
+    setRoster(next);
+    setCountText((prev) => countAfterRosterChange(prev, next.length));
+  }
+
+  function moveRosterEntry(index: number, delta: number): void {
+    const target = index + delta;
+    if (target < 0 || target >= roster.length) return;
+    const next = roster.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRoster(next);
+    // Rules name participant numbers, so they follow the rows
+    const [a, b] = [index + 1, target + 1];
+    setConstraints((prev) => renumberConstraints(prev, (id) => (id === a ? b : id === b ? a : id)));
+  }
+
+  function removeRosterEntry(index: number): void {
+    updateRoster(roster.filter((_, i) => i !== index));
+    const removed = index + 1;
+    setConstraints((prev) => renumberConstraints(prev, (id) => (id === removed ? null : id > removed ? id - 1 : id)));
+  }
+
+  function handleAddPasted(): void {
+    const added = parseRosterPaste(pasteText);
+    if (!added.length) return;
+    updateRoster([...roster, ...added]);
+    setPasteText("");
+  }
+
+  async function handleImportFile(file: File): Promise<void> {
+    const result = readRosterFile(file.name, await file.text());
+    if (result.kind === "error") {
+      setError(result.message);
+      return;
+    }
+    setError("");
+
+    if (result.kind === "session") {
+      stopOptimizer();
+      applySession({ ...result.session, tvMode: false, scorekeeperMode: false, lookupMode: false, gameTimer: null });
+      setShareUrl("");
+      setRosterImport(null);
+      return;
+    }
+    setRosterImport(result.draft);
+  }
+
+  function setImportColumn(field: ImportField, column: number): void {
+    setRosterImport((prev) => (prev ? { ...prev, mapping: { ...prev.mapping, [field]: column } } : prev));
+  }
+
+  function handleConfirmImport(): void {
+    if (!rosterImport || !importPreview || importPreview.errors.length) return;
+    const { mode: importedMode, courtsText: importedCourts, gamesText: importedGames } = rosterImport.settings;
+    if (importedMode) setMode(importedMode);
+    if (importedCourts !== undefined) setCourtsText(importedCourts);
+    if (importedGames !== undefined) setGamesText(importedGames);
+    updateRoster(importPreview.players);
+    setConstraints(importPreview.pins);
+    setRosterImport(null);
+  }
+
+  function handleAddRule(): void {
+    const a = parsePositiveInt(rulePickA);
+    if (!a) return;
+
+    let rule: HardConstraint;
+    if (activeRuleKind === "onlyGames" || activeRuleKind === "onlyCourts") {
+      const list = parseNumberList(ruleListText);
+      if (!list) {
+        setError(`Enter ${activeRuleKind === "onlyGames" ? "games" : "courts"} as numbers or ranges (example: "1-3,5").`);
+        return;
+      }
+      rule =
+        activeRuleKind === "onlyGames"
+          ? { kind: "onlyGames", player: a, games: list }
+          : { kind: "onlyCourts", player: a, courts: list };
+    } else {
+      const b = parsePositiveInt(rulePickB);
+      if (!b || b === a) return;
+      rule = { kind: activeRuleKind, players: [a, b] };
+    }
+
+    setConstraints((prev) => [...prev, rule]);
+    setRulePickA("");
+    setRulePickB("");
+    setRuleListText("");
+    setError("");
+  }
+
+  function handleSetAvailability(): void {
+    const id = parsePositiveInt(availabilityPick);
+    if (!id) return;
+
+    // Pad the roster so unnamed numbers can carry availability too; the count only grows if #id is past it
+    const next = roster.slice();
+    while (next.length < id) next.push({ name: "" });
+    next[id - 1] = {
+      ...next[id - 1],
+      arriveGame: parsePositiveInt(arriveText) || undefined,
+      leaveAfterGame: parsePositiveInt(leaveText) || undefined,
+    };
+
+    updateRoster(next);
+    setArriveText("");
+    setLeaveText("");
+  }
+
+  function clearAvailability(index: number): void {
+    updateRoster(roster.map((p, i) => (i === index ? { ...p, arriveGame: undefined, leaveAfterGame: undefined } : p)));
+  }
+
+  function handleReplan(): void {
+    const fromGame = parsePositiveInt(replanFromText) || suggestedReplanGame;
+
+    // Offset the seed so a replan doesn't just replay the original game order; share links keep the result as edits
+    const next = currentRecipe((parsePositiveInt(seedText) || randomSeed()) + fromGame);
+    if ("error" in next) {
+      setError(next.error);
+      return;
+    }
+
+    // Locked courts and byes in the replanned games stay exactly where they were put
+    const locked = lockedRounds(
+      rounds.filter((r) => r.gameNumber >= fromGame),
+      locks
+    );
+    const result = generateFromRecipe(
+      next,
+      rounds.filter((r) => r.gameNumber < fromGame),
+      scores,
+      locked
+    );
+
+    // A failed replan keeps the current schedule
+    setError(result.error);
+    if (result.error) return;
+
+    const before = new Map(rounds.map((r) => [r.gameNumber, JSON.stringify([r.courts, r.byes])]));
+    const applyReplan = ({ rounds: replanned }: { rounds: Round[] }) => {
+      const changed = replanned
+        .filter((r) => r.gameNumber >= fromGame && before.get(r.gameNumber) !== JSON.stringify([r.courts, r.byes]))
+        .map((r) => r.gameNumber);
+      setRounds(replanned);
+      setChangedGames(changed);
+    };
+
+    applyReplan(result);
+    // The recipe follows the replan (roster, courts, seed); share links send the replanned games as edits on its draft
+    setRecipe(next);
+    setBaseRounds(generateFromRecipe(next).rounds);
+    setSessionRoster(roster);
+    setShareUrl("");
+    setScores((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([gameNumber]) => Number(gameNumber) < fromGame))
+    );
+    setReplanFromText("");
 
-  // If just digits, treat as a count -> 1..N
-  if (/^\d+$/.test(raw)) {
-    const n = Number.parseInt(raw, 10);
-    if (!Number.isFinite(n) || n <= 0) return { courts: [], error: "Court count must be at least 1." };
-    return { courts: Array.from({ length: n }, (_, i) => i + 1), error: "" };
+    const seconds = mode === "ladder" || next.tournament ? 0 : parsePositiveInt(optimizerText);
+    startOptimizer(optimizeRequestFor(next, result.rounds, fromGame - 1, seconds * 1000, locked), applyReplan);
   }
 
-  // Otherwise parse list/ranges like "1-3, 5,6"
-  const tokens = raw.split(",").map((t) => t.trim()).filter(Boolean);
-  if (!tokens.length) return { courts: [], error: 'Please enter courts (example: "1-3,5,6").' };
-
-  const set = new Set<number>();
+  function handleNextLadderGame(): void {
+    if (!recipe) return;
+    const nextGame = rounds.length + 1;
 
-  for (const tok of tokens) {
-    const range = tok.match(/^(\d+)\s*-\s*(\d+)$/);
-    if (range) {
-      const a = Number.parseInt(range[1], 10);
-      const b = Number.parseInt(range[2], 10);
-      if (!Number.isFinite(a) || !Number.isFinite(b) || a <= 0 || b <= 0) {
-        return { courts: [], error: `Invalid range "${tok}". Use positive numbers.` };
-      }
-      const start = Math.min(a, b);
-      const end = Math.max(a, b);
-      for (let i = start; i <= end; i++) set.add(i);
-      continue;
+    // Current roster picks up late arrivals; the seed offset only breaks bye ties
+    const next = currentRecipe(recipe.seed + nextGame);
+    if ("error" in next) {
+      setError(next.error);
+      return;
     }
 
-    if (/^\d+$/.test(tok)) {
-      const n = Number.parseInt(tok, 10);
-      if (!Number.isFinite(n) || n <= 0) return { courts: [], error: `Invalid court number "${tok}".` };
-      set.add(n);
-      continue;
-    }
+    const result = generateFromRecipe(next, rounds, scores);
+    setError(result.error);
+    if (result.error) return;
 
-    return { courts: [], error: `Invalid courts entry "${tok}". Try "1-3,5,6" or "8".` };
+    setRounds(result.rounds);
+    setChangedGames([]);
+    setSessionRoster(roster);
+    setShareUrl("");
+    setScoreGameIndex(result.rounds.length - 1);
+    setTvGameIndex(result.rounds.length - 1);
   }
 
-  const courts = Array.from(set).sort((a, b) => a - b);
-  if (!courts.length) return { courts: [], error: "No valid courts found." };
-  return { courts, error: "" };
-}
+  function handleShare(prefix = SHARE_HASH_PREFIX): void {
+    if (!recipe) return;
 
-function pairKey(a: number, b: number): string {
-  const x = Math.min(a, b);
-  const y = Math.max(a, b);
-  return `${x}-${y}`;
-}
+    const url = shareUrlFor(
+      {
+        version: SHARE_FORMAT_VERSION,
+        recipe,
+        roster: sessionRoster,
+        gameCount: rounds.length,
+        overrides: overridesFor(rounds, baseRounds),
+      },
+      prefix
+    );
+    setShareUrl(url);
+    // Clipboard needs a secure context; the link stays visible for a manual copy either way
+    navigator.clipboard?.writeText(url).catch(() => undefined);
+  }
 
-function numbersOnlyDash(nums: number[]): string {
-  return (nums ?? []).join(" - ");
-}
+  function unlockAudio(): void {
+    // Browsers only play sound after a tap, so Start/Resume create (or wake) the audio context
+    if (typeof AudioContext === "undefined") return;
+    audioRef.current ??= new AudioContext();
+    void audioRef.current.resume();
+  }
 
-/* ---------------- Round Robin (partners-only) helpers ---------------- */
+  function handleStartTimer(): void {
+    unlockAudio();
+    const now = Date.now();
+    setTimerClock(now);
+    setGameTimer(
+      changeoverMs > 0 ? startTimerPhase("changeover", changeoverMs, now) : startTimerPhase("game", gameLengthMs, now)
+    );
+  }
 
-function partnerScoreRR(group: number[], partnerCounts: Map<string, number>): number {
-  // Fixed teams: (0,1) and (2,3) are partners for that game
-  const a = pairKey(group[0], group[1]);
-  const b = pairKey(group[2], group[3]);
-  return (partnerCounts.get(a) ?? 0) * 10 + (partnerCounts.get(b) ?? 0) * 10;
-}
+  function handlePauseTimer(): void {
+    const now = Date.now();
+    setTimerClock(now);
+    setGameTimer((t) => (t && t.endsAt !== null ? { ...t, endsAt: null, remainingMs: timerRemainingMs(t, now) } : t));
+  }
 
-function bestOrderForRoundRobinGroup(group: number[], partnerCounts: Map<string, number>): number[] {
-  // Reorder 4 players to minimize repeated PARTNERS while keeping fixed-team rule.
-  const [p1, p2, p3, p4] = group;
+  function handleResumeTimer(): void {
+    unlockAudio();
+    const now = Date.now();
+    setTimerClock(now);
+    setGameTimer((t) => (t && t.endsAt === null ? { ...t, endsAt: now + t.remainingMs } : t));
+  }
 
-  const candidates: number[][] = [
-    [p1, p2, p3, p4], // (p1,p2) (p3,p4)
-    [p1, p3, p2, p4], // (p1,p3) (p2,p4)
-    [p1, p4, p2, p3], // (p1,p4) (p2,p3)
-  ];
+  function handleAdjustTimer(deltaMs: number): void {
+    const now = Date.now();
+    setTimerClock(now);
+    setGameTimer((t) => {
+      if (!t) return t;
+      const remainingMs = Math.max(0, timerRemainingMs(t, now) + deltaMs);
+      return t.endsAt === null ? { ...t, remainingMs } : { ...t, endsAt: now + remainingMs };
+    });
+  }
 
-  let best = candidates[0];
-  let bestScore = partnerScoreRR(best, partnerCounts);
+  function applySession(session: SessionSnapshot): void {
+    setMode(session.mode);
+    setCountText(session.countText);
+    setCourtsText(session.courtsText);
+    setCourtChanges(session.courtChanges);
+    setSinglesCourtsText(session.singlesCourtsText);
+    setSpareCourts(session.spareCourts);
+    setTournament(session.tournament);
+    setGamesText(session.gamesText);
+    setSeedText(session.seedText);
+    setOptimizerText(session.optimizerText);
+    setTimerMinutesText(session.timerMinutesText);
+    setChangeoverSecondsText(session.changeoverSecondsText);
+    setRoster(session.roster);
+    setBalanceWeight(session.balanceWeight);
+    setOpponentWeight(session.opponentWeight);
+    setCourtWeight(session.courtWeight);
+    setLadderRule(session.ladderRule);
+    setMixed(session.mixed);
+    setConstraints(session.constraints);
+    setLeagueWeight(session.leagueWeight);
+    setSessionRoster(session.sessionRoster);
+    setNumbersOnly(session.numbersOnly);
+    setRounds(session.rounds);
+    setBaseRounds(session.baseRounds);
+    setRecipe(session.recipe);
+    setChangedGames(session.changedGames);
+    setLocks(session.locks);
+    setTvMode(session.tvMode);
+    setTvGameIndex(session.tvGameIndex);
+    setTvShowLeaderboard(session.tvShowLeaderboard);
+    setGameTimer(session.gameTimer);
+    setScores(session.scores);
+    setBracket(session.bracket);
+    setTvShowBracket(session.tvShowBracket);
+    setTiebreakers(session.tiebreakers);
+    setScorekeeperMode(session.scorekeeperMode);
+    setLookupMode(session.lookupMode);
+    setLookupPlayer(session.lookupPlayer);
+    setScoreGameIndex(session.scoreGameIndex);
+  }
 
-  for (let i = 1; i < candidates.length; i++) {
-    const s = partnerScoreRR(candidates[i], partnerCounts);
-    if (s < bestScore) {
-      bestScore = s;
-      best = candidates[i];
-    }
+  function handleReset(): void {
+    stopOptimizer();
+    applySession(EMPTY_SESSION);
+    setShareUrl("");
+    setPasteText("");
+    setRosterImport(null);
+    setAvailabilityPick("");
+    setArriveText("");
+    setLeaveText("");
+    setReplanFromText("");
+    setRulePickA("");
+    setRulePickB("");
+    setRuleListText("");
+    setError("");
   }
 
-  return best;
-}
+  function handleSaveSession(): void {
+    const name = saveName.trim() || `Session ${new Date().toLocaleDateString()}`;
+    setSavedSessions((prev) => [
+      { id: newSessionId(), name, file: toSessionFile({ ...snapshot, tvMode: false, scorekeeperMode: false, lookupMode: false, gameTimer: null }) },
+      ...prev,
+    ]);
+    setSaveName("");
+  }
 
-/* ---------------- Session generation (balanced byes + minimize repeats) ---------------- */
+  function handleOpenSession(saved: SavedSession): void {
+    const session = readSessionFile(saved.file);
+    if (!session) {
+      setError(`Could not open "${saved.name}". The saved data is not readable.`);
+      return;
+    }
+    stopOptimizer();
+    applySession(session);
+    setShareUrl("");
+    setError("");
+  }
 
-function generateSchedule(args: {
-  mode: Mode;
-  participantCount: number;
-  courtNumbers: number[];
-  games: number;
-}): { rounds: Round[]; error: string } {
-  const { mode, participantCount, courtNumbers, games } = args;
+  function handleDuplicateSession(saved: SavedSession): void {
+    setSavedSessions((prev) => {
+      const index = prev.findIndex((s) => s.id === saved.id);
+      const copy = { ...saved, id: newSessionId(), name: `${saved.name} (copy)` };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }
 
-  const unitsPerCourt = mode === "couples" ? 2 : 4;
+  function renameSession(id: string, name: string): void {
+    setSavedSessions((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
+  }
 
-  if (participantCount <= 0) return { rounds: [], error: "Please enter the number of couples/players." };
-  if (!courtNumbers.length) return { rounds: [], error: 'Please enter courts (example: "8" or "1-3,5,6").' };
-  if (games <= 0) return { rounds: [], error: "Please enter the number of games." };
+  function deleteSession(id: string): void {
+    setSavedSessions((prev) => prev.filter((s) => s.id !== id));
+  }
 
-  const participants: number[] = Array.from({ length: participantCount }, (_, i) => i + 1);
+  function handleRecordLeague(): void {
+    const entry: LeagueSession = {
+      id: newSessionId(),
+      date: new Date().toISOString(),
+      mode,
+      names: sessionRoster.map((p) => p.name),
+      rounds,
+      scores,
+    };
+    setLeague((prev) => [entry, ...prev]);
+  }
 
-  // Balanced byes across session
-  const byeCounts = new Array(participantCount + 1).fill(0);
+  function updateCourtScore(gameNumber: number, courtNumber: number, side: keyof CourtScore, text: string): void {
+    const cleaned = text.replace(/[^\d]/g, "");
+    const value = cleaned ? Number.parseInt(cleaned, 10) : undefined;
 
-  // Couples: track matchup repeats. RoundRobin: track PARTNER repeats only.
-  const partnerCounts = new Map<string, number>();
+    setScores((prev) => {
+      const game = { ...(prev[gameNumber] ?? {}) };
+      game[courtNumber] = { ...(game[courtNumber] ?? {}), [side]: value };
+      return { ...prev, [gameNumber]: game };
+    });
+  }
 
-  const rounds: Round[] = [];
+  function handleSeedBracket(): void {
+    if (!recipe?.tournament) return;
+    const seeds = seedQualifiers(standings.map((r) => r.id), pools, recipe.tournament.advance);
+    const { teams, error: teamsError } = playoffTeams(seeds, recipe.mode);
+    setError(teamsError);
+    if (teamsError) return;
 
-  function maxCourtsFillable(pCount: number): number {
-    return Math.min(courtNumbers.length, Math.floor(pCount / unitsPerCourt));
+    setBracket(advanceBracket(createBracket(teams, recipe.tournament.format), recipe.courtNumbers));
+    setTvShowBracket(true);
   }
 
-  function chooseByesFairly(pool: number[], byesNeeded: number): { byes: number[]; remaining: number[] } {
-    if (byesNeeded <= 0) return { byes: [], remaining: pool };
-
-    const groups = new Map<number, number[]>();
-    for (const p of pool) {
-      const bc = byeCounts[p] ?? 0;
-      const arr = groups.get(bc) ?? [];
-      arr.push(p);
-      groups.set(bc, arr);
-    }
+  function updateBracketScore(index: number, side: keyof CourtScore, text: string): void {
+    const cleaned = text.replace(/[^\d]/g, "");
+    const value = cleaned ? Number.parseInt(cleaned, 10) : undefined;
+    const courts = recipe?.courtNumbers ?? [];
 
-    const byeList: number[] = [];
-    const countsSorted = Array.from(groups.keys()).sort((a, b) => a - b);
+    // Every result can free a court and decide who plays next
+    setBracket((prev) =>
+      prev
+        ? advanceBracket(
+            { ...prev, matches: prev.matches.map((m, i) => (i === index ? { ...m, score: { ...m.score, [side]: value } } : m)) },
+            courts
+          )
+        : prev
+    );
+  }
 
-    for (const bc of countsSorted) {
-      if (byeList.length >= byesNeeded) break;
-      const tied = shuffle(groups.get(bc) ?? []);
-      for (const p of tied) {
-        if (byeList.length >= byesNeeded) break;
-        byeList.push(p);
-      }
-    }
+  function handleSwap(gameNumber: number, a: Seat, b: Seat): void {
+    setPickedSeat(null);
+    if (a.courtNumber === b.courtNumber && a.index === b.index) return;
 
-    for (const p of byeList) byeCounts[p] = (byeCounts[p] ?? 0) + 1;
+    setRounds((prev) => prev.map((r) => (r.gameNumber === gameNumber ? swapSeats(r, a, b) : r)));
+    setChangedGames((prev) => (prev.includes(gameNumber) ? prev : [...prev, gameNumber].sort((x, y) => x - y)));
+    setShareUrl("");
+  }
 
-    const byeSet = new Set(byeList);
-    const remaining = pool.filter((p) => !byeSet.has(p));
+  // Tap one seat, then another, to swap them (dragging picks the first seat the same way)
+  function handlePickSeat(gameNumber: number, seat: Seat): void {
+    if (pickedSeat) handleSwap(gameNumber, pickedSeat, seat);
+    else setPickedSeat(seat);
+  }
 
-    return { byes: byeList.sort((a, b) => a - b), remaining };
+  function toggleLock(lock: AssignmentLock): void {
+    const same = (l: AssignmentLock) => JSON.stringify(l) === JSON.stringify(lock);
+    setLocks((prev) => (prev.some(same) ? prev.filter((l) => !same(l)) : [...prev, lock]));
   }
 
-  function scoreGroups(groups: number[][]): number {
-    let score = 0;
+  function moveTiebreaker(index: number, delta: number): void {
+    const target = index + delta;
+    if (target < 0 || target >= tiebreakers.length) return;
+    const next = tiebreakers.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    setTiebreakers(next);
+  }
 
-    for (const g of groups) {
-      if (mode === "couples") {
-        const k = pairKey(g[0], g[1]);
-        score += (partnerCounts.get(k) ?? 0) * 10;
-      } else {
-        score += partnerScoreRR(g, partnerCounts);
-      }
-    }
+  const sessionNames = sessionRoster.map((p) => p.name);
+  const label = (id: number) => participantLabel(id, sessionNames, numbersOnly);
+  // the game on the TV is in progress, so replanning starts with the one after it
+  const suggestedReplanGame = Math.min(tvGameIndex + 2, Math.max(rounds.length, 1));
+  const standings = computeStandings(rounds, scores, tiebreakers);
+  const pools = recipe?.tournament
+    ? splitIntoPools(recipe.participantCount, recipe.tournament.pools, recipe.ratings, recipe.tournament.poolSeed)
+    : [];
+  const hasScores = standings.some((r) => r.played > 0);
 
-    return score;
+  function handleExportCsv(): void {
+    downloadFile(exportFileName("csv"), roundsToCsv(rounds, mode, label), "text/csv;charset=utf-8");
   }
 
-  function buildGroupsMinRepeats(pool: number[], courtsToUse: number): number[][] {
-    const needed = courtsToUse * unitsPerCourt;
-    const usable = pool.slice(0, needed);
+  function handleExportJson(): void {
+    const file = toSessionFile({ ...snapshot, tvMode: false, scorekeeperMode: false, lookupMode: false, gameTimer: null });
+    downloadFile(exportFileName("json"), JSON.stringify(file, null, 2), "application/json");
+  }
 
-    const ATTEMPTS = mode === "couples" ? 400 : 1000;
+  /* ---------------- PRINT MODE ---------------- */
 
-    let bestGroups: number[][] = [];
-    let bestScore = Number.POSITIVE_INFINITY;
+  if (printView) {
+    const courtColumns = Array.from(new Set(rounds.flatMap((r) => r.courts.map((c) => c.courtNumber)))).sort(
+      (a, b) => a - b
+    );
+    const printTitle = MODE_TITLES[mode];
+    const views: { key: PrintView; label: string }[] = [
+      { key: "perGame", label: "One page per game" },
+      { key: "grid", label: "All games grid" },
+      { key: "cards", label: "Player cards" },
+    ];
 
-    for (let t = 0; t < ATTEMPTS; t++) {
-      const candidate = shuffle(usable);
-      let groups = chunk(candidate, unitsPerCourt).slice(0, courtsToUse);
+    return (
+      <div className="min-h-screen bg-white text-slate-900">
+        <div className="max-w-5xl mx-auto px-6 py-6 print:p-0 print:max-w-none">
+          <div className="print:hidden flex flex-wrap items-center gap-2 mb-6">
+            <button
+              onClick={() => setPrintView(null)}
+              className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 font-semibold"
+            >
+              Back
+            </button>
+            {views.map((v) => (
+              <button
+                key={v.key}
+                onClick={() => setPrintView(v.key)}
+                className={`px-4 py-2 rounded-xl border font-semibold ${
+                  printView === v.key ? "bg-slate-900 text-white border-transparent" : "bg-white border-slate-200 hover:bg-slate-50"
+                }`}
+              >
+                {v.label}
+              </button>
+            ))}
+            <div className="flex-1" />
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 rounded-xl text-white font-semibold bg-gradient-to-r from-indigo-600 to-sky-600"
+            >
+              Print
+            </button>
+            <button
+              onClick={handleExportCsv}
+              className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold"
+            >
+              CSV
+            </button>
+            <button
+              onClick={handleExportJson}
+              className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold"
+            >
+              JSON
+            </button>
+          </div>
 
-      if (mode === "roundRobin") {
-        groups = groups.map((g) => bestOrderForRoundRobinGroup(g, partnerCounts));
-      }
+          {printView === "perGame"
+            ? rounds.map((round, index) => (
+                <section key={round.gameNumber} className={index < rounds.length - 1 ? "break-after-page mb-10 print:mb-0" : ""}>
+                  <div className="text-3xl font-extrabold">
+                    {printTitle} — Game {round.gameNumber} of {rounds.length}
+                  </div>
+                  <div className="mt-2 text-lg">
+                    <span className="font-semibold">Byes:</span> {round.byes.length ? labelsDash(round.byes, label) : "None"}
+                  </div>
+                  <table className="mt-4 w-full text-xl border-collapse">
+                    <tbody>
+                      {round.courts.map((c) => {
+                        const [sideA, sideB] = courtSides(c.group);
+                        return (
+                          <tr key={c.courtNumber} className="border-b border-slate-300">
+                            <td className="py-3 pr-4 font-extrabold whitespace-nowrap">Court {c.courtNumber}</td>
+                            {isCutthroat(c.group) ? (
+                              <td className="py-3 font-semibold" colSpan={3}>
+                                {labelsDash(c.group, label)} <span className="text-slate-500 font-normal">(cutthroat)</span>
+                              </td>
+                            ) : (
+                              <>
+                                <td className="py-3 pr-4 font-semibold">{labelsDash(sideA, label)}</td>
+                                <td className="py-3 pr-4 text-slate-500 font-black">vs</td>
+                                <td className="py-3 font-semibold">{labelsDash(sideB, label)}</td>
+                              </>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </section>
+              ))
+            : null}
 
-      const s = scoreGroups(groups);
-      if (s < bestScore) {
-        bestScore = s;
-        bestGroups = groups;
-        if (bestScore === 0) break;
-      }
-    }
+          {printView === "grid" ? (
+            <section>
+              <div className="text-2xl font-extrabold mb-3">{printTitle}</div>
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="border border-slate-300 px-2 py-1 text-left">Game</th>
+                    {courtColumns.map((courtNumber) => (
+                      <th key={courtNumber} className="border border-slate-300 px-2 py-1 text-left">
+                        Court {courtNumber}
+                      </th>
+                    ))}
+                    <th className="border border-slate-300 px-2 py-1 text-left">Byes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rounds.map((round) => (
+                    <tr key={round.gameNumber} className="break-inside-avoid">
+                      <td className="border border-slate-300 px-2 py-1 font-bold">{round.gameNumber}</td>
+                      {courtColumns.map((courtNumber) => {
+                        const court = round.courts.find((c) => c.courtNumber === courtNumber);
+                        const sides = court ? courtSides(court.group) : null;
+                        return (
+                          <td key={courtNumber} className="border border-slate-300 px-2 py-1">
+                            {court && isCutthroat(court.group) ? (
+                              <>
+                                <div>{labelsDash(court.group, label)}</div>
+                                <div className="text-slate-500">cutthroat</div>
+                              </>
+                            ) : sides ? (
+                              <>
+                                <div>{labelsDash(sides[0], label)}</div>
+                                <div className="text-slate-500">vs {labelsDash(sides[1], label)}</div>
+                              </>
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="border border-slate-300 px-2 py-1">{labelsDash(round.byes, label) || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ) : null}
 
-    return bestGroups;
+          {printView === "cards" ? (
+            <section className="grid sm:grid-cols-2 print:grid-cols-2 gap-4">
+              {participantsIn(rounds).map((id) => (
+                <div key={id} className="break-inside-avoid rounded-xl border border-slate-300 p-3">
+                  <div className="text-lg font-extrabold">{participantLabel(id, sessionNames, false)}</div>
+                  <div className="text-xs text-slate-500">#{id}</div>
+                  <table className="mt-2 w-full text-sm border-collapse">
+                    <thead>
+                      <tr className="text-left text-slate-500 border-b border-slate-300">
+                        <th className="py-1 pr-2">Game</th>
+                        <th className="py-1 pr-2">Court</th>
+                        {mode !== "couples" ? <th className="py-1 pr-2">Partner</th> : null}
+                        <th className="py-1">Opponents</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {playerSchedule(rounds, id).map((g) => (
+                        <tr key={g.gameNumber} className="border-b border-slate-100">
+                          <td className="py-1 pr-2">{g.gameNumber}</td>
+                          {g.courtNumber === null ? (
+                            <td className="py-1 text-slate-500 italic" colSpan={mode !== "couples" ? 3 : 2}>
+                              {g.bye ? "Bye" : "—"}
+                            </td>
+                          ) : (
+                            <>
+                              <td className="py-1 pr-2 font-semibold">{g.courtNumber}</td>
+                              {mode !== "couples" ? <td className="py-1 pr-2">{labelsDash(g.partners, label)}</td> : null}
+                              <td className="py-1">{labelsDash(g.opponents, label)}</td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </section>
+          ) : null}
+        </div>
+      </div>
+    );
   }
 
-  for (let game = 1; game <= games; game++) {
-    const courtsToUse = maxCourtsFillable(participants.length);
-    const usedSlots = courtsToUse * unitsPerCourt;
-    const byesNeeded = participants.length - usedSlots;
+  /* ---------------- PLAYER LOOKUP ---------------- */
 
-    // 1) pick byes fairly
-    const { byes, remaining } = chooseByesFairly(participants, byesNeeded);
+  if (lookupMode && !displayOnly) {
+    // Phone-sized: pick yourself once, then scroll your whole night (always names, whatever TV mode shows)
+    const nameOf = (id: number) => participantLabel(id, sessionNames, false);
+    const unit = mode === "couples" ? "couple" : "player";
+    const everyone = participantsIn(rounds);
+    const player = lookupPlayer !== null && everyone.includes(lookupPlayer) ? lookupPlayer : null;
+    const query = lookupSearch.trim().toLowerCase();
+    const matches = everyone.filter((id) => !query || nameOf(id).toLowerCase().includes(query) || String(id) === query);
+    const games = player !== null ? playerSchedule(rounds, player) : [];
+    const plannedGames = mode === "ladder" && recipe ? Math.max(recipe.games, rounds.length) : rounds.length;
 
-    // 2) minimize repeats (matchups for couples; partners for RR)
-    const groups = buildGroupsMinRepeats(remaining, courtsToUse);
-
-    // 3) update history
-    if (mode === "couples") {
-      for (const g of groups) {
-        const k = pairKey(g[0], g[1]);
-        partnerCounts.set(k, (partnerCounts.get(k) ?? 0) + 1);
-      }
-    } else {
-      for (const g of groups) {
-        const a = pairKey(g[0], g[1]);
-        const b = pairKey(g[2], g[3]);
-        partnerCounts.set(a, (partnerCounts.get(a) ?? 0) + 1);
-        partnerCounts.set(b, (partnerCounts.get(b) ?? 0) + 1);
-      }
-    }
-
-    // 4) map to selected court numbers
-    const courts: CourtAssignment[] = groups.map((group, idx) => ({
-      courtNumber: courtNumbers[idx],
-      group: group.slice(),
-    }));
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-sky-50 via-white to-emerald-50 text-slate-900">
+        <div className="max-w-md mx-auto px-4 py-6">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-2xl font-bold">{player !== null ? nameOf(player) : "Find Your Games"}</div>
+            <button
+              onClick={() => (player !== null ? setLookupPlayer(null) : setLookupMode(false))}
+              className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 font-semibold"
+            >
+              {player !== null ? "Change" : "Done"}
+            </button>
+          </div>
 
-    rounds.push({ gameNumber: game, courts, byes });
+          {player === null ? (
+            <>
+              <input
+                type="search"
+                value={lookupSearch}
+                onChange={(e) => setLookupSearch(e.target.value)}
+                placeholder={`Your name or ${unit} number`}
+                aria-label={`Find a ${unit}`}
+                className="mt-4 w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-lg outline-none focus:ring-2 focus:ring-sky-200"
+              />
+              <div className="mt-3 space-y-2">
+                {matches.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => {
+                      setLookupPlayer(id);
+                      setLookupSearch("");
+                    }}
+                    className="w-full flex items-center justify-between rounded-2xl border border-slate-200 bg-white px-4 py-3 text-left hover:bg-slate-50"
+                  >
+                    <span className="text-lg font-semibold">{nameOf(id)}</span>
+                    <span className="text-slate-500">#{id}</span>
+                  </button>
+                ))}
+                {!matches.length ? (
+                  <div className="text-slate-600">{everyone.length ? `No ${unit} matches "${lookupSearch}".` : "No games yet."}</div>
+                ) : null}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="mt-1 text-slate-600">
+                #{player} · {games.filter((g) => g.courtNumber !== null).length} games ·{" "}
+                {games.filter((g) => g.bye).length} byes
+              </div>
+              <div className="mt-4 space-y-3">
+                {games.map((g) =>
+                  g.courtNumber === null ? (
+                    <div key={g.gameNumber} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3">
+                      <div className="text-sm font-semibold text-slate-500">Game {g.gameNumber}</div>
+                      <div className="text-lg font-semibold text-slate-500">{g.bye ? "Bye — sit this one out" : "Not playing"}</div>
+                    </div>
+                  ) : (
+                    <div key={g.gameNumber} className="rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm">
+                      <div className="flex items-baseline justify-between gap-3">
+                        <div className="text-sm font-semibold text-slate-500">Game {g.gameNumber}</div>
+                        <div className="text-2xl font-extrabold">Court {g.courtNumber}</div>
+                      </div>
+                      {g.partners.length ? (
+                        <div className="mt-1">
+                          <span className="text-slate-500">With </span>
+                          <span className="font-semibold">{labelsDash(g.partners, nameOf)}</span>
+                        </div>
+                      ) : null}
+                      <div className="mt-1">
+                        <span className="text-slate-500">{g.partners.length || mode === "couples" ? "Against " : "Facing "}</span>
+                        <span className="font-semibold">{labelsDash(g.opponents, nameOf)}</span>
+                      </div>
+                    </div>
+                  )
+                )}
+              </div>
+              {plannedGames > rounds.length ? (
+                <div className="mt-3 text-sm text-slate-600">
+                  Later games (up to game {plannedGames}) are set from the results as the ladder goes.
+                </div>
+              ) : null}
+            </>
+          )}
+        </div>
+      </div>
+    );
   }
 
-  return { rounds, error: "" };
-}
-
-/* ---------------- Session Summary (setup screen) ---------------- */
-
-function analyzeSession(rounds: Round[], mode: Mode) {
-  const byeCounts = new Map<number, number>();
-  const pairCounts = new Map<string, number>();
-
-  for (const round of rounds) {
-    for (const b of round.byes) {
-      byeCounts.set(b, (byeCounts.get(b) ?? 0) + 1);
-    }
+  /* ---------------- SCOREKEEPER MODE ---------------- */
 
-    for (const court of round.courts) {
-      const g = court.group;
-
-      if (mode === "couples") {
-        const key = pairKey(g[0], g[1]);
-        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
-      } else {
-        const k1 = pairKey(g[0], g[1]);
-        const k2 = pairKey(g[2], g[3]);
-        pairCounts.set(k1, (pairCounts.get(k1) ?? 0) + 1);
-        pairCounts.set(k2, (pairCounts.get(k2) ?? 0) + 1);
-      }
-    }
-  }
+  if (scorekeeperMode && !displayOnly) {
+    const totalGames = rounds.length;
+    const safeIndex = Math.min(Math.max(scoreGameIndex, 0), Math.max(totalGames - 1, 0));
+    const round = rounds[safeIndex];
+    const gameScores = round ? scores[round.gameNumber] ?? {} : {};
 
-  const byeValues = Array.from(byeCounts.values());
-  const minByes = byeValues.length ? Math.min(...byeValues) : 0;
-  const maxByes = byeValues.length ? Math.max(...byeValues) : 0;
+    const canPrev = safeIndex > 0;
+    const canNext = safeIndex < totalGames - 1;
 
-  let repeatPairs = 0;
-  for (const count of pairCounts.values()) {
-    if (count > 1) repeatPairs += count - 1;
-  }
+    // Pool play is done once every scored court of every game has a result (cutthroat games aren't scored)
+    const poolPlayDone =
+      totalGames > 0 &&
+      rounds.every((r) =>
+        r.courts.every((c) => isCutthroat(c.group) || isCompleteScore(scores[r.gameNumber]?.[c.courtNumber]))
+      );
+    const bracketStatus = bracket ? resolveBracket(bracket) : [];
 
-  return { minByes, maxByes, repeatPairs };
-}
+    // Ladder: the next game is planned from this game's results once every court has a winner
+    const plannedGames = mode === "ladder" && recipe ? Math.max(recipe.games, totalGames) : totalGames;
+    const showLadderNext = mode === "ladder" && !!round && safeIndex === totalGames - 1 && totalGames < plannedGames;
+    const ladderReady =
+      showLadderNext &&
+      round.courts.every((c) => {
+        const score = gameScores[c.courtNumber];
+        return isCompleteScore(score) && score.teamA !== score.teamB;
+      });
 
-/* ---------------- App UI ---------------- */
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-sky-50 via-white to-emerald-50 text-slate-900">
+        <div className="max-w-3xl mx-auto px-6 py-10">
+          <div className="rounded-3xl bg-white/80 backdrop-blur shadow-sm border border-slate-200 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <div className="text-2xl font-bold">Scorekeeper</div>
+                <div className="text-slate-600 mt-1">
+                  Game {totalGames ? safeIndex + 1 : 0} of {plannedGames}
+                </div>
+              </div>
+              <button
+                onClick={() => setScorekeeperMode(false)}
+                className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 font-semibold"
+              >
+                Done
+              </button>
+            </div>
 
-export default function App() {
-  const [mode, setMode] = useState<Mode>("couples");
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => setScoreGameIndex(Math.max(0, safeIndex - 1))}
+                disabled={!canPrev}
+                className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200 disabled:text-slate-300"
+              >
+                ← Previous Game
+              </button>
+              <button
+                onClick={() => setScoreGameIndex(Math.min(totalGames - 1, safeIndex + 1))}
+                disabled={!canNext}
+                className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200 disabled:text-slate-300"
+              >
+                Next Game →
+              </button>
+            </div>
 
-  // text inputs so phone keyboard allows "-" and ","
-  const [countText, setCountText] = useState<string>("");
-  const [courtsText, setCourtsText] = useState<string>("");
-  const [gamesText, setGamesText] = useState<string>("");
+            <div className="mt-4 space-y-3">
+              {(round?.courts ?? []).map((c) => {
+                const [sideA, sideB] = courtSides(c.group);
+                const score = gameScores[c.courtNumber] ?? {};
 
-  const [rounds, setRounds] = useState<Round[]>([]);
-  const [error, setError] = useState<string>("");
-  const [tvMode, setTvMode] = useState<boolean>(false);
-  const [tvGameIndex, setTvGameIndex] = useState<number>(0);
+                if (isCutthroat(c.group)) {
+                  return (
+                    <div key={`score-${safeIndex}-${c.courtNumber}`} className="rounded-2xl border border-slate-200 bg-white p-4">
+                      <div className="font-semibold">Court {c.courtNumber} · Cutthroat</div>
+                      <div className="mt-2 truncate">{labelsDash(c.group, label)}</div>
+                      <div className="mt-1 text-sm text-slate-500">Scored individually; not counted in the standings.</div>
+                    </div>
+                  );
+                }
 
-  const countLabel = useMemo(() => (mode === "couples" ? "Number of couples" : "Number of players"), [mode]);
-  const perCourtHint = useMemo(
-    () => (mode === "couples" ? "2 couples per court (4 players)" : "4 players per court"),
-    [mode]
-  );
+                return (
+                  <div key={`score-${safeIndex}-${c.courtNumber}`} className="rounded-2xl border border-slate-200 bg-white p-4">
+                    <div className="font-semibold">Court {c.courtNumber}</div>
+                    <div className="mt-2 grid grid-cols-[1fr_auto] gap-2 items-center">
+                      <div className="truncate">{labelsDash(sideA, label)}</div>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={score.teamA ?? ""}
+                        onChange={(e) => updateCourtScore(round.gameNumber, c.courtNumber, "teamA", e.target.value)}
+                        aria-label={`Court ${c.courtNumber} score for ${labelsDash(sideA, label)}`}
+                        className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-right font-semibold outline-none focus:ring-2 focus:ring-sky-200"
+                      />
+                      <div className="truncate">{labelsDash(sideB, label)}</div>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={score.teamB ?? ""}
+                        onChange={(e) => updateCourtScore(round.gameNumber, c.courtNumber, "teamB", e.target.value)}
+                        aria-label={`Court ${c.courtNumber} score for ${labelsDash(sideB, label)}`}
+                        className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-right font-semibold outline-none focus:ring-2 focus:ring-sky-200"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
 
-  function handleGenerate(): void {
-    const participantCount = parsePositiveInt(countText);
-    const games = parsePositiveInt(gamesText);
+            {showLadderNext ? (
+              <div className="mt-4 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm text-amber-900">
+                    {ladderReady
+                      ? `Winners move up a court, losers move down (${LADDER_RULES[recipe?.ladderRule ?? "split"].label.toLowerCase()}).`
+                      : "Enter a winning score on every court to plan the next game."}
+                  </div>
+                  <button
+                    onClick={handleNextLadderGame}
+                    disabled={!ladderReady}
+                    className="px-4 py-2 rounded-xl bg-amber-500 text-white font-semibold hover:bg-amber-600 disabled:bg-slate-300"
+                  >
+                    Plan Game {totalGames + 1} →
+                  </button>
+                </div>
+                {error ? (
+                  <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 text-red-800 px-4 py-3">{error}</div>
+                ) : null}
+              </div>
+            ) : null}
 
-    const parsedCourts = parseCourtsInput(courtsText);
-    if (parsedCourts.error) {
-      setError(parsedCourts.error);
-      setRounds([]);
-      return;
-    }
+            {recipe?.tournament ? (
+              pools.map((pool, k) => (
+                <div key={k} className="mt-6 rounded-2xl border border-slate-200 bg-white p-4">
+                  <div className="font-semibold text-lg">Pool {poolName(k)} standings</div>
+                  <div className="mt-2">
+                    <StandingsTable rows={standings.filter((r) => pool.includes(r.id))} label={label} />
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="mt-6 rounded-2xl border border-slate-200 bg-white p-4">
+                <div className="font-semibold text-lg">Standings</div>
+                <div className="mt-2">
+                  <StandingsTable rows={standings} label={label} />
+                </div>
+              </div>
+            )}
 
-    const result = generateSchedule({
-      mode,
-      participantCount,
-      courtNumbers: parsedCourts.courts,
-      games,
-    });
+            {recipe?.tournament ? (
+              <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="font-semibold text-lg">Playoffs</div>
+                    <div className="text-sm text-slate-600">
+                      Top {recipe.tournament.advance} of each pool ·{" "}
+                      {recipe.tournament.format === "double" ? "double" : "single"} elimination
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleSeedBracket}
+                    disabled={!poolPlayDone}
+                    className="px-4 py-2 rounded-xl font-semibold text-white bg-slate-900 hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    {bracket ? "Reseed Bracket" : "Seed Playoff Bracket"}
+                  </button>
+                </div>
+                {!poolPlayDone ? (
+                  <div className="mt-2 text-sm text-slate-600">Enter every pool game&apos;s score to seed the bracket.</div>
+                ) : null}
+                {error ? (
+                  <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 text-red-800 px-4 py-3">{error}</div>
+                ) : null}
 
-    setError(result.error);
-    setRounds(result.rounds);
-    setTvGameIndex(0);
+                {bracket ? (
+                  <div className="mt-4 space-y-3">
+                    {bracket.matches.map((m, i) => {
+                      const status = bracketStatus[i];
+                      if (!isMatchPlayable(status) && (status.winner === undefined || status.a === null || status.b === null)) {
+                        return null; // byes, and matches still waiting for their teams
+                      }
+                      const teamA = bracketTeamName(bracket, status.a, label);
+                      const teamB = bracketTeamName(bracket, status.b, label);
 
-    if (!result.error) setTvMode(true);
-  }
+                      return (
+                        <div key={i} className="rounded-2xl border border-slate-200 p-3">
+                          <div className="font-semibold">
+                            {matchTitle(bracket, m)}
+                            {m.court !== null ? <span className="text-slate-500 font-normal"> · Court {m.court}</span> : null}
+                          </div>
+                          <div className="mt-2 grid grid-cols-[1fr_auto] gap-2 items-center">
+                            <div className="truncate">{teamA}</div>
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              value={m.score.teamA ?? ""}
+                              onChange={(e) => updateBracketScore(i, "teamA", e.target.value)}
+                              aria-label={`${matchTitle(bracket, m)} score for ${teamA}`}
+                              className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-right font-semibold outline-none focus:ring-2 focus:ring-sky-200"
+                            />
+                            <div className="truncate">{teamB}</div>
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              value={m.score.teamB ?? ""}
+                              onChange={(e) => updateBracketScore(i, "teamB", e.target.value)}
+                              aria-label={`${matchTitle(bracket, m)} score for ${teamB}`}
+                              className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-right font-semibold outline-none focus:ring-2 focus:ring-sky-200"
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <BracketBoard bracket={bracket} label={label} />
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
 
-  function handleReset(): void {
-    setMode("couples");
-    setCountText("");
-    setCourtsText("");
-    setGamesText("");
-    setRounds([]);
-    setError("");
-    setTvMode(false);
-    setTvGameIndex(0);
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="font-semibold">Tiebreaker order</div>
+              <div className="mt-2 space-y-2">
+                {tiebreakers.map((key, index) => (
+                  <div key={key} className="flex items-center gap-2 text-sm">
+                    <div className="w-6 text-right font-semibold text-slate-500">{index + 1}</div>
+                    <div className="flex-1">{TIEBREAKERS[key].label}</div>
+                    <button
+                      onClick={() => moveTiebreaker(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:text-slate-300"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveTiebreaker(index, 1)}
+                      disabled={index === tiebreakers.length - 1}
+                      className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:text-slate-300"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
   }
 
   /* ---------------- TV MODE ---------------- */
 
-  if (tvMode) {
+  if (tvMode || displayOnly) {
     const accentColors = [
       "border-indigo-400",
       "border-emerald-500",
@@ -398,104 +2655,353 @@ export default function App() {
     const safeIndex = Math.min(Math.max(tvGameIndex, 0), Math.max(totalGames - 1, 0));
     const round = rounds[safeIndex];
 
+    const hasNames = sessionNames.some((n) => n.trim());
+
     const canPrev = totalGames > 1 && safeIndex > 0;
     const canNext = totalGames > 1 && safeIndex < totalGames - 1;
+    const isChanged = !!round && changedGames.includes(round.gameNumber);
+    const bracketStatus = bracket ? resolveBracket(bracket) : [];
+    // On deck: the next game below the courts, so the next group can get ready (ladder: once it's planned)
+    const onDeck = rounds[safeIndex + 1];
+    const showingCourts = !(bracket && tvShowBracket) && !(tvShowLeaderboard && hasScores);
+
+    if (displayOnly && !round) {
+      return (
+        <div className="min-h-screen bg-white text-slate-900 flex items-center justify-center px-6">
+          <div className="text-center">
+            <div className="text-3xl font-extrabold tracking-tight">Pickleball Scheduler</div>
+            <div className="mt-2 text-lg text-slate-600">Waiting for a schedule from the controller window…</div>
+          </div>
+        </div>
+      );
+    }
+
+    const plannedGames = mode === "ladder" && recipe ? Math.max(recipe.games, totalGames) : totalGames;
+    const timerLeft = gameTimer ? timerRemainingMs(gameTimer, timerClock) : gameLengthMs;
+    const moves = mode === "ladder" ? ladderMoves(rounds, safeIndex) : new Map<number, LadderMove>();
+    const teamLabel = (ids: number[]) =>
+      ids.map((id, i) => (
+        <span key={id}>
+          {i > 0 ? " - " : ""}
+          <LadderArrow move={moves.get(id)} />
+          {label(id)}
+        </span>
+      ));
 
     return (
       <div className="min-h-screen bg-white text-slate-900">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
           <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
             <div className="flex items-start gap-4">
-              <button
-                onClick={() => setTvMode(false)}
-                className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 font-semibold"
-              >
-                Exit TV Mode
-              </button>
+              {displayOnly ? null : (
+                <button
+                  onClick={() => setTvMode(false)}
+                  className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 font-semibold"
+                >
+                  Exit TV Mode
+                </button>
+              )}
 
               <div>
-                <div className="text-2xl sm:text-3xl font-extrabold tracking-tight">
-                  {mode === "couples" ? "Couples Assignments" : "Round Robin Assignments"}
-                </div>
+                <div className="text-2xl sm:text-3xl font-extrabold tracking-tight">{MODE_TITLES[mode]}</div>
                 <div className="text-slate-600 mt-1">
-                  Game {totalGames ? safeIndex + 1 : 0} of {totalGames}
+                  Game {totalGames ? safeIndex + 1 : 0} of {plannedGames}
+                  {isChanged ? (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-sm font-semibold">
+                      Updated
+                    </span>
+                  ) : null}
+                  {!displayOnly && displayCount ? (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-800 text-sm font-semibold">
+                      {displayCount === 1 ? "Display connected" : `${displayCount} displays connected`}
+                    </span>
+                  ) : null}
                 </div>
 
                 <div className="text-slate-700 font-semibold mt-1">
                   Byes:{" "}
                   <span className="font-normal text-slate-700">
-                    {round?.byes?.length ? numbersOnlyDash(round.byes) : "None"}
+                    {round?.byes?.length ? labelsDash(round.byes, label) : "None"}
                   </span>
                 </div>
               </div>
             </div>
 
-            <div className="flex items-center gap-2">
-              <button
-                onClick={() => setTvGameIndex((i) => Math.max(0, i - 1))}
-                disabled={!canPrev}
-                className={`px-4 py-2 rounded-xl font-semibold border ${
-                  canPrev
-                    ? "bg-slate-100 hover:bg-slate-200 border-slate-200"
-                    : "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed"
-                }`}
-              >
-                ← Previous Game
-              </button>
+            {displayOnly ? (
+              gameLengthMs > 0 && !soundOn ? (
+                <button
+                  onClick={() => {
+                    unlockAudio();
+                    setSoundOn(true);
+                  }}
+                  className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                >
+                  Tap to enable buzzer
+                </button>
+              ) : null
+            ) : (
+              <div className="flex items-center gap-2">
+                {bracket ? (
+                  <button
+                    onClick={() => setTvShowBracket((v) => !v)}
+                    className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                  >
+                    {tvShowBracket ? "Pool Games" : "Playoffs"}
+                  </button>
+                ) : null}
 
-              <button
-                onClick={() => setTvGameIndex((i) => Math.min(totalGames - 1, i + 1))}
-                disabled={!canNext}
-                className={`px-4 py-2 rounded-xl font-semibold border ${
-                  canNext
-                    ? "bg-slate-100 hover:bg-slate-200 border-slate-200"
-                    : "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed"
-                }`}
-              >
-                Next Game →
-              </button>
-            </div>
-          </div>
+                {hasScores ? (
+                  <button
+                    onClick={() => setTvShowLeaderboard((v) => !v)}
+                    className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                  >
+                    {tvShowLeaderboard ? "Show Courts" : "Leaderboard"}
+                  </button>
+                ) : null}
 
-          <div className="space-y-4">
-            {(round?.courts ?? []).map((c, index) => {
-              const color = accentColors[index % accentColors.length];
+                {hasNames ? (
+                  <button
+                    onClick={() => setNumbersOnly((v) => !v)}
+                    className="px-4 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                  >
+                    {numbersOnly ? "Show Names" : "Numbers Only"}
+                  </button>
+                ) : null}
 
-              return (
-                <div
-                  key={`game-${safeIndex}-court-${c.courtNumber}`}
-                  className={`rounded-2xl border-2 ${color} bg-slate-100 px-5 py-4 shadow-sm`}
+                <button
+                  onClick={() => setTvGameIndex((i) => Math.max(0, i - 1))}
+                  disabled={!canPrev}
+                  className={`px-4 py-2 rounded-xl font-semibold border ${
+                    canPrev
+                      ? "bg-slate-100 hover:bg-slate-200 border-slate-200"
+                      : "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed"
+                  }`}
                 >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="text-lg sm:text-xl font-extrabold shrink-0">
-                      Court {c.courtNumber}
-                    </div>
+                  ← Previous Game
+                </button>
+
+                <button
+                  onClick={() => setTvGameIndex((i) => Math.min(totalGames - 1, i + 1))}
+                  disabled={!canNext}
+                  className={`px-4 py-2 rounded-xl font-semibold border ${
+                    canNext
+                      ? "bg-slate-100 hover:bg-slate-200 border-slate-200"
+                      : "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed"
+                  }`}
+                >
+                  Next Game →
+                </button>
+              </div>
+            )}
+          </div>
+
+          {gameLengthMs > 0 || gameTimer ? (
+            <div
+              className={`mb-6 rounded-2xl border-2 px-5 py-4 shadow-sm flex flex-wrap items-center justify-between gap-4 ${
+                gameTimer?.phase === "changeover"
+                  ? "border-amber-300 bg-amber-50"
+                  : timerLeft <= 60_000 && gameTimer
+                    ? "border-rose-300 bg-rose-50"
+                    : "border-slate-200 bg-slate-50"
+              }`}
+            >
+              <div>
+                <div className="text-sm sm:text-base font-semibold text-slate-600">
+                  {!gameTimer
+                    ? "Game timer"
+                    : gameTimer.phase === "changeover"
+                      ? `Warm-up / changeover · Game ${safeIndex + 1} next`
+                      : `Game ${safeIndex + 1}`}
+                  {gameTimer?.endsAt === null ? (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 text-sm">Paused</span>
+                  ) : null}
+                </div>
+                <div className="text-6xl sm:text-8xl font-black tabular-nums leading-none mt-1">{formatClock(timerLeft)}</div>
+              </div>
+
+              {displayOnly ? null : (
+                <div className="flex flex-wrap items-center gap-2">
+                  {!gameTimer ? (
+                    <button
+                      onClick={handleStartTimer}
+                      disabled={gameLengthMs <= 0}
+                      className="px-4 py-2 rounded-xl font-semibold text-white bg-slate-900 hover:bg-slate-800 disabled:opacity-50"
+                    >
+                      Start Timer
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleAdjustTimer(-60_000)}
+                        className="px-3 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                      >
+                        −1 min
+                      </button>
+                      <button
+                        onClick={() => handleAdjustTimer(60_000)}
+                        className="px-3 py-2 rounded-xl font-semibold border bg-white hover:bg-slate-50 border-slate-200"
+                      >
+                        +1 min
+                      </button>
+                      {gameTimer.endsAt === null ? (
+                        <button
+                          onClick={handleResumeTimer}
+                          className="px-4 py-2 rounded-xl font-semibold text-white bg-slate-900 hover:bg-slate-800"
+                        >
+                          Resume
+                        </button>
+                      ) : (
+                        <button
+                          onClick={handlePauseTimer}
+                          className="px-4 py-2 rounded-xl font-semibold text-white bg-slate-900 hover:bg-slate-800"
+                        >
+                          Pause
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setGameTimer(null)}
+                        className="px-3 py-2 rounded-xl font-semibold border bg-white hover:bg-red-50 border-slate-200 text-red-700"
+                      >
+                        Stop
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {bracket && tvShowBracket ? (
+            <div className="space-y-4">
+              {bracketStatus.map((status, i) => {
+                const { court } = bracket.matches[i];
+                if (court === null || !isMatchPlayable(status)) return null;
 
-                    {/* PRO MATCH DISPLAY */}
-                    {mode === "couples" ? (
-                      <div className="text-base sm:text-lg font-extrabold text-right leading-snug break-words">
-                        {numbersOnlyDash(c.group)}
+                return (
+                  <div
+                    key={`match-${i}`}
+                    className={`rounded-2xl border-2 ${accentColors[i % accentColors.length]} bg-slate-100 px-5 py-4 shadow-sm`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="text-lg sm:text-xl font-extrabold shrink-0">
+                        Court {court}
+                        <div className="text-sm font-semibold text-slate-600">{matchTitle(bracket, bracket.matches[i])}</div>
                       </div>
-                    ) : (
                       <div className="flex items-center justify-end gap-3 flex-wrap">
                         <div className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 shadow-sm text-base sm:text-lg font-extrabold">
-                          {c.group[0]} - {c.group[1]}
+                          {bracketTeamName(bracket, status.a, label)}
                         </div>
-
                         <div className="px-3 py-1 rounded-full bg-slate-900 text-white text-sm sm:text-base font-black tracking-wide">
                           VS
                         </div>
-
                         <div className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 shadow-sm text-base sm:text-lg font-extrabold">
-                          {c.group[2]} - {c.group[3]}
+                          {bracketTeamName(bracket, status.b, label)}
                         </div>
                       </div>
-                    )}
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="rounded-2xl border-2 border-slate-200 bg-slate-50 px-5 py-4 shadow-sm">
+                <div className="text-xl sm:text-2xl font-extrabold mb-2">Playoffs</div>
+                <BracketBoard bracket={bracket} label={label} large />
+              </div>
+            </div>
+          ) : tvShowLeaderboard && hasScores ? (
+            <div className="rounded-2xl border-2 border-slate-200 bg-slate-50 px-5 py-4 shadow-sm">
+              <div className="text-xl sm:text-2xl font-extrabold mb-2">Leaderboard</div>
+              <StandingsTable rows={standings} label={label} large />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {(round?.courts ?? []).map((c, index) => {
+                const color = accentColors[index % accentColors.length];
+
+                return (
+                  <div
+                    key={`game-${safeIndex}-court-${c.courtNumber}`}
+                    className={`rounded-2xl border-2 ${color} ${
+                    isChanged ? "bg-amber-50 ring-2 ring-amber-300" : "bg-slate-100"
+                  } px-5 py-4 shadow-sm`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="text-lg sm:text-xl font-extrabold shrink-0">
+                        Court {c.courtNumber}
+                        {mode === "ladder" && index === 0 ? (
+                          <div className="text-sm font-semibold text-amber-600">Top court</div>
+                        ) : null}
+                        {mode === "roundRobin" && c.group.length === 2 ? (
+                          <div className="text-sm font-semibold text-sky-700">Singles</div>
+                        ) : null}
+                        {isCutthroat(c.group) ? (
+                          <div className="text-sm font-semibold text-sky-700">Cutthroat · 1 vs 2, rotate</div>
+                        ) : null}
+                      </div>
+
+                      {/* PRO MATCH DISPLAY */}
+                      {mode === "couples" ? (
+                        <div className="text-base sm:text-lg font-extrabold text-right leading-snug break-words">
+                          {labelsDash(c.group, label)}
+                        </div>
+                      ) : isCutthroat(c.group) ? (
+                        <div className="flex items-center justify-end gap-2 flex-wrap">
+                          {c.group.map((id) => (
+                            <div
+                              key={id}
+                              className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 shadow-sm text-base sm:text-lg font-extrabold"
+                            >
+                              {teamLabel([id])}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-end gap-3 flex-wrap">
+                          <div className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 shadow-sm text-base sm:text-lg font-extrabold">
+                            {teamLabel(courtSides(c.group)[0])}
+                          </div>
+
+                          <div className="px-3 py-1 rounded-full bg-slate-900 text-white text-sm sm:text-base font-black tracking-wide">
+                            VS
+                          </div>
+
+                          <div className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 shadow-sm text-base sm:text-lg font-extrabold">
+                            {teamLabel(courtSides(c.group)[1])}
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   </div>
+                );
+              })}
+            </div>
+          )}
+
+          {showingCourts && onDeck ? (
+            <div className="mt-6 rounded-2xl border-2 border-dashed border-slate-300 bg-white px-5 py-4">
+              <div className="text-lg sm:text-xl font-extrabold text-slate-700">On deck · Game {safeIndex + 2}</div>
+              <div className="mt-2 grid sm:grid-cols-2 gap-x-6 gap-y-1">
+                {onDeck.courts.map((c) => {
+                  const [sideA, sideB] = courtSides(c.group);
+                  return (
+                    <div key={c.courtNumber} className="flex gap-3 text-base sm:text-lg">
+                      <span className="font-bold text-slate-500 shrink-0">Court {c.courtNumber}</span>
+                      <span className="font-semibold break-words">
+                        {mode === "couples" || isCutthroat(c.group)
+                          ? labelsDash(c.group, label)
+                          : `${labelsDash(sideA, label)}  vs  ${labelsDash(sideB, label)}`}
+                        {isCutthroat(c.group) ? <span className="text-sky-700"> (cutthroat)</span> : null}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              {onDeck.byes.length ? (
+                <div className="mt-2 text-slate-600">
+                  <span className="font-semibold">Byes:</span> {labelsDash(onDeck.byes, label)}
                 </div>
-              );
-            })}
-          </div>
+              ) : null}
+            </div>
+          ) : null}
 
           {/* No reset/regenerate buttons on TV mode by design */}
         </div>
@@ -505,7 +3011,42 @@ export default function App() {
 
   /* ---------------- SETUP MODE ---------------- */
 
-  const stats = rounds.length ? analyzeSession(rounds, mode) : null;
+  const stats = rounds.length
+    ? analyzeSession(rounds, mode, ratingBalanceFor(sessionRoster.map((p) => p.rating), 1))
+    : null;
+  const hasRatings = roster.some((p) => typeof p.rating === "number");
+  const issues = scheduleIssues(rounds, mode, constraints, label);
+  const editIndex = Math.min(editGameIndex, Math.max(rounds.length - 1, 0));
+  const editRound = rounds[editIndex];
+
+  const seatChip = (seat: Seat, id: number, locked: boolean) => {
+    const picked = pickedSeat?.courtNumber === seat.courtNumber && pickedSeat.index === seat.index;
+    const pick = () => editRound && handlePickSeat(editRound.gameNumber, seat);
+
+    return (
+      <button
+        key={`${seat.courtNumber ?? "bye"}-${seat.index}`}
+        draggable={!locked}
+        disabled={locked || !!optimizing}
+        onClick={pick}
+        onDragStart={() => setPickedSeat(seat)}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          pick();
+        }}
+        className={`px-3 py-1.5 rounded-xl border text-sm font-semibold ${
+          picked
+            ? "bg-sky-600 border-sky-600 text-white"
+            : locked
+              ? "bg-slate-100 border-slate-200 text-slate-500"
+              : "bg-white border-slate-200 hover:bg-sky-50 cursor-grab"
+        }`}
+      >
+        {label(id)}
+      </button>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-sky-50 via-white to-emerald-50 text-slate-900">
@@ -513,7 +3054,7 @@ export default function App() {
         <div className="rounded-3xl bg-white/80 backdrop-blur shadow-sm border border-slate-200 p-6">
           <div className="text-2xl font-bold">Pickleball Scheduler</div>
           <div className="text-slate-600 mt-1">
-            Balanced byes + minimized repeats (RR avoids repeat partners only).
+            Balanced byes + minimized repeats (RR avoids repeat partners and can balance levels).
           </div>
 
           <div className="mt-6 grid gap-4">
@@ -541,6 +3082,16 @@ export default function App() {
                   >
                     Round Robin
                   </button>
+                  <button
+                    onClick={() => setMode("ladder")}
+                    className={`px-4 py-2 rounded-xl border transition ${
+                      mode === "ladder"
+                        ? "bg-gradient-to-r from-amber-500 to-orange-600 text-white border-transparent"
+                        : "bg-white border-slate-200 hover:bg-slate-50"
+                    }`}
+                  >
+                    Ladder
+                  </button>
                 </div>
                 <div className="mt-2 text-sm text-slate-600">{perCourtHint}</div>
               </div>
@@ -596,19 +3147,856 @@ export default function App() {
               </label>
             </div>
 
+            {feasibility ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                <div className="font-semibold">Plan check</div>
+                <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                  <div>
+                    <div className="text-slate-500">Courts used</div>
+                    <div className="font-semibold">
+                      {feasibility.courtsUsed} of {feasibility.courtsUsed + feasibility.idleCourts}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-500">Byes per game</div>
+                    <div className="font-semibold">
+                      {feasibility.byesPerGame}
+                      {feasibility.shortHandedPerGame ? ` (+${feasibility.shortHandedPerGame} on singles/cutthroat)` : ""}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-500">Byes per {mode === "couples" ? "couple" : "player"}</div>
+                    <div className="font-semibold">
+                      {feasibility.byeSpread.min === feasibility.byeSpread.max
+                        ? feasibility.byeSpread.min
+                        : `${feasibility.byeSpread.min}–${feasibility.byeSpread.max}`}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-500">Unavoidable repeats</div>
+                    <div className="font-semibold">
+                      {feasibility.minRepeatPairs} {mode === "couples" ? "matchups" : "partners"}
+                      {feasibility.minRepeatOpponents !== null ? `, ${feasibility.minRepeatOpponents} opponents` : ""}
+                    </div>
+                  </div>
+                </div>
+                {feasibility.suggestions.length ? (
+                  <ul className="mt-3 list-disc pl-5 text-sm text-slate-600 space-y-1">
+                    {feasibility.suggestions.map((s) => (
+                      <li key={s}>{s}</li>
+                    ))}
+                  </ul>
+                ) : null}
+                {courtChanges.length || tournament ? (
+                  <div className="mt-2 text-xs text-slate-500">Based on the main court list with everyone playing every game.</div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="font-semibold">Court changes (optional)</div>
+              <div className="mt-1 text-sm text-slate-600">
+                Courts opening or closing mid-session: from the game given, only the listed courts are used. Byes adjust to
+                match.
+              </div>
+
+              {courtChanges.map((change, index) => (
+                <div key={index} className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-slate-600">From game</span>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={change.fromGameText}
+                    onChange={(e) => updateCourtChange(index, { fromGameText: e.target.value })}
+                    placeholder="e.g., 5"
+                    className="w-20 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                  />
+                  <span className="text-slate-600">use courts</span>
+                  <input
+                    type="text"
+                    inputMode="text"
+                    value={change.courtsText}
+                    onChange={(e) => updateCourtChange(index, { courtsText: e.target.value })}
+                    placeholder='e.g., 4 or "1-3"'
+                    className="w-32 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                  />
+                  <button
+                    onClick={() => setCourtChanges((prev) => prev.filter((_, i) => i !== index))}
+                    className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-red-50 text-red-700"
+                    aria-label="Remove court change"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+
+              <button
+                onClick={() => setCourtChanges((prev) => [...prev, { fromGameText: "", courtsText: "" }])}
+                className="mt-3 px-3 py-2 rounded-xl border border-slate-200 hover:bg-slate-50 text-sm font-semibold"
+              >
+                Add court change
+              </button>
+
+              {mode === "roundRobin" ? (
+                <label className="mt-4 block text-sm">
+                  <div className="text-slate-600">Singles courts (1 vs 1; filled when players are left over)</div>
+                  <input
+                    type="text"
+                    inputMode="text"
+                    value={singlesCourtsText}
+                    onChange={(e) => setSinglesCourtsText(e.target.value)}
+                    placeholder="e.g., 8"
+                    className="mt-1 w-full sm:w-64 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                  />
+                </label>
+              ) : null}
+
+              {mode === "roundRobin" ? (
+                <label className="mt-4 flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={spareCourts} onChange={(e) => setSpareCourts(e.target.checked)} />
+                  <span>
+                    Leftover players use a spare court instead of sitting out (2 play singles, 3 play cutthroat; shared out
+                    like byes)
+                  </span>
+                </label>
+              ) : null}
+            </div>
+
+            {mode !== "ladder" ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={tournament !== null}
+                    onChange={(e) =>
+                      setTournament(e.target.checked ? { poolsText: "2", advanceText: "2", format: "single" } : null)
+                    }
+                  />
+                  <span className="font-semibold">Tournament (pools + playoffs)</span>
+                </label>
+                <div className="mt-1 text-sm text-slate-600">
+                  {mode === "couples" ? "Couples" : "Players"} are split into pools, each on its own courts. After pool play
+                  the top of each pool go into a playoff bracket
+                  {mode === "roundRobin" ? " (the best qualifier partners the last one in, and so on)" : ""}.
+                </div>
+
+                {tournament ? (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                    <label className="block">
+                      <div className="text-slate-600">Pools</div>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={tournament.poolsText}
+                        onChange={(e) => setTournament({ ...tournament, poolsText: e.target.value })}
+                        placeholder="e.g., 2"
+                        className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                      />
+                    </label>
+                    <label className="block">
+                      <div className="text-slate-600">Advance per pool</div>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={tournament.advanceText}
+                        onChange={(e) => setTournament({ ...tournament, advanceText: e.target.value })}
+                        placeholder="e.g., 2"
+                        className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                      />
+                    </label>
+                    <label className="block">
+                      <div className="text-slate-600">Bracket</div>
+                      <select
+                        value={tournament.format}
+                        onChange={(e) => setTournament({ ...tournament, format: e.target.value as BracketFormat })}
+                        className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-200"
+                      >
+                        <option value="single">Single elimination</option>
+                        <option value="double">Double elimination</option>
+                      </select>
+                    </label>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="font-semibold">Roster (optional)</div>
+                <div className="text-sm text-slate-600">
+                  {roster.length} {mode === "couples" ? "couples" : "players"}
+                </div>
+              </div>
+              <div className="mt-1 text-sm text-slate-600">
+                Row 1 is #1, row 2 is #2, and so on. Numbers without a name show as the number.
+              </div>
+
+              {roster.length ? (
+                <div className="mt-3 space-y-2">
+                  {roster.map((p, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <div className="w-8 text-right text-sm font-semibold text-slate-500">{index + 1}</div>
+                      <input
+                        type="text"
+                        value={p.name}
+                        onChange={(e) =>
+                          updateRoster(roster.map((r, i) => (i === index ? { ...r, name: e.target.value } : r)))
+                        }
+                        placeholder={nameLabel}
+                        className="flex-1 min-w-0 rounded-xl border border-slate-200 px-3 py-1.5 outline-none focus:ring-2 focus:ring-sky-200"
+                      />
+                      {mode !== "couples" ? (
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          step="0.01"
+                          min="0"
+                          value={p.rating ?? ""}
+                          onChange={(e) => {
+                            const value = Number.parseFloat(e.target.value);
+                            const rating = Number.isFinite(value) ? value : undefined;
+                            updateRoster(roster.map((r, i) => (i === index ? { ...r, rating } : r)));
+                          }}
+                          placeholder="Rating"
+                          aria-label="Rating"
+                          className="w-20 rounded-xl border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-sky-200"
+                        />
+                      ) : null}
+                      {mode === "roundRobin" ? (
+                        <input
+                          type="text"
+                          value={p.category ?? ""}
+                          onChange={(e) => {
+                            const category = e.target.value.trim() ? e.target.value : undefined;
+                            updateRoster(roster.map((r, i) => (i === index ? { ...r, category } : r)));
+                          }}
+                          placeholder="M/F"
+                          aria-label="Category"
+                          className="w-14 rounded-xl border border-slate-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-sky-200"
+                        />
+                      ) : null}
+                      <button
+                        onClick={() => moveRosterEntry(index, -1)}
+                        disabled={index === 0}
+                        className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:text-slate-300"
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveRosterEntry(index, 1)}
+                        disabled={index === roster.length - 1}
+                        className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:text-slate-300"
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeRosterEntry(index)}
+                        className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-red-50 text-red-700"
+                        aria-label="Remove"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                <button
+                  onClick={() => updateRoster([...roster, { name: "" }])}
+                  className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold"
+                >
+                  + Add {mode === "couples" ? "couple" : "player"}
+                </button>
+                {roster.length ? (
+                  <button
+                    onClick={() => updateRoster([])}
+                    className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm"
+                  >
+                    Clear roster
+                  </button>
+                ) : null}
+                <label className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold cursor-pointer">
+                  Import CSV/JSON
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = ""; // picking the same file again still fires onChange
+                      if (file) void handleImportFile(file);
+                    }}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+
+              {rosterImport && importPreview ? (
+                <div className="mt-3 rounded-xl border border-sky-200 bg-sky-50 p-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="font-semibold">Import “{rosterImport.fileName}”</div>
+                    <div className="text-sm text-slate-600">{rosterImport.rows.length} rows</div>
+                  </div>
+                  <div className="mt-1 text-sm text-slate-600">
+                    Choose which column holds each field. The import replaces the current roster and rules.
+                  </div>
+
+                  <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    {IMPORT_FIELDS.map(({ field, label: fieldLabel }) => (
+                      <label key={field} className="block text-sm">
+                        <div className="font-semibold text-slate-700">{fieldLabel}</div>
+                        <select
+                          value={rosterImport.mapping[field]}
+                          onChange={(e) => setImportColumn(field, Number(e.target.value))}
+                          className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5"
+                        >
+                          <option value={-1}>{field === "name" ? "Choose…" : "Not imported"}</option>
+                          {rosterImport.headers.map((header, column) => (
+                            <option key={column} value={column}>
+                              {header}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+
+                  {importPreview.players.length ? (
+                    <div className="mt-3 text-sm text-slate-700">
+                      {importPreview.players.slice(0, 5).map((p, index) => (
+                        <div key={index} className="truncate">
+                          <span className="font-semibold">{p.name}</span>
+                          {p.rating !== undefined ? ` · ${p.rating}` : ""}
+                          {p.category ? ` · ${p.category}` : ""}
+                        </div>
+                      ))}
+                      {importPreview.players.length > 5 ? (
+                        <div className="text-slate-500">…and {importPreview.players.length - 5} more</div>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {importPreview.errors.length ? (
+                    <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 text-red-800 px-4 py-3 text-sm">
+                      {importPreview.errors.slice(0, MAX_IMPORT_ERRORS).map((message, index) => (
+                        <div key={index}>{message}</div>
+                      ))}
+                      {importPreview.errors.length > MAX_IMPORT_ERRORS ? (
+                        <div>…and {importPreview.errors.length - MAX_IMPORT_ERRORS} more problems.</div>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {importPreview.pins.length ? (
+                    <div className="mt-3 text-sm text-slate-600">
+                      Fixed partners become {importPreview.pins.length} “Always partners” rule
+                      {importPreview.pins.length === 1 ? "" : "s"}.
+                    </div>
+                  ) : null}
+
+                  {importSettingsText ? (
+                    <div className="mt-3 text-sm text-slate-600">Also sets {importSettingsText}.</div>
+                  ) : null}
+
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      onClick={handleConfirmImport}
+                      disabled={!importPreview.players.length || importPreview.errors.length > 0}
+                      className="px-3 py-1.5 rounded-xl bg-sky-600 text-white text-sm font-semibold hover:bg-sky-700 disabled:bg-slate-300"
+                    >
+                      Import {importPreview.players.length} {mode === "couples" ? "couples" : "players"}
+                    </button>
+                    <button
+                      onClick={() => setRosterImport(null)}
+                      className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder={`Paste ${mode === "couples" ? "couple" : "player"} names, one per line`}
+                rows={3}
+                className="mt-3 w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-200"
+              />
+              <button
+                onClick={handleAddPasted}
+                disabled={!pasteText.trim()}
+                className="mt-2 px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold disabled:text-slate-300"
+              >
+                Add pasted names
+              </button>
+            </div>
+
+            {mode === "roundRobin" ? (
+              <label className="rounded-2xl border border-slate-200 bg-white p-4 block">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="font-semibold">Level balance</div>
+                  <div className="text-sm font-semibold text-slate-700">{balanceWeight}</div>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  step={1}
+                  value={balanceWeight}
+                  onChange={(e) => setBalanceWeight(Number(e.target.value))}
+                  className="mt-3 w-full"
+                />
+                <div className="mt-1 flex justify-between text-xs text-slate-500">
+                  <span>Avoid repeat partners</span>
+                  <span>Balance team ratings</span>
+                </div>
+                {!hasRatings ? (
+                  <div className="mt-2 text-sm text-slate-600">Add ratings to the roster to balance teams by level.</div>
+                ) : null}
+              </label>
+            ) : null}
+
+            {mode === "roundRobin" ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={mixed} onChange={(e) => setMixed(e.target.checked)} />
+                  <span className="font-semibold">Mixed doubles</span>
+                </label>
+                <div className="mt-1 text-sm text-slate-600">
+                  Every team gets one player from each category (the M/F box on the roster). Byes rotate within each
+                  category.
+                </div>
+                {mixed ? (
+                  <div className="mt-2 text-sm font-semibold text-slate-700">
+                    {categoryCounts.length
+                      ? categoryCounts.map(([category, count]) => `${category || "No category"}: ${count}`).join(" · ")
+                      : "Enter the number of players and tag each one."}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="font-semibold">Rules</div>
+              <div className="mt-1 text-sm text-slate-600">
+                Hard rules are always followed. If they can&apos;t all be met, Generate names the rule in the way.
+              </div>
+
+              {constraints.length ? (
+                <div className="mt-3 space-y-1 text-sm">
+                  {constraints.map((c, index) => {
+                    const applies = RULE_KINDS[c.kind].modes.includes(mode);
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <div className="w-6 text-right font-semibold text-slate-500">{index + 1}</div>
+                        <div className={`flex-1 ${applies ? "" : "text-slate-400"}`}>
+                          {describeConstraint(c, rosterLabel)}
+                          {applies ? "" : " (not for this mode)"}
+                        </div>
+                        <button
+                          onClick={() => setConstraints((prev) => prev.filter((_, i) => i !== index))}
+                          className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-red-50 text-red-700"
+                          aria-label="Remove rule"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+
+              <div className="mt-3 grid sm:grid-cols-4 gap-2 items-end">
+                <label className="text-sm">
+                  <div className="text-slate-600">Rule</div>
+                  <select
+                    value={activeRuleKind}
+                    onChange={(e) => setRuleKind(e.target.value as HardConstraint["kind"])}
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-2 py-2 bg-white"
+                  >
+                    {ruleKinds.map((kind) => (
+                      <option key={kind} value={kind}>
+                        {RULE_KINDS[kind].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm">
+                  <div className="text-slate-600">{mode === "couples" ? "Couple" : "Player"}</div>
+                  <select
+                    value={rulePickA}
+                    onChange={(e) => setRulePickA(e.target.value)}
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-2 py-2 bg-white"
+                  >
+                    <option value="">Choose…</option>
+                    {Array.from({ length: parsePositiveInt(countText) }, (_, i) => i + 1).map((id) => (
+                      <option key={id} value={id}>
+                        {rosterLabel(id)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {activeRuleKind === "onlyGames" || activeRuleKind === "onlyCourts" ? (
+                  <label className="text-sm">
+                    <div className="text-slate-600">{activeRuleKind === "onlyGames" ? "Games" : "Courts"}</div>
+                    <input
+                      type="text"
+                      inputMode="text"
+                      value={ruleListText}
+                      onChange={(e) => setRuleListText(e.target.value)}
+                      placeholder="e.g., 1-3,5"
+                      className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-sky-200"
+                    />
+                  </label>
+                ) : (
+                  <label className="text-sm">
+                    <div className="text-slate-600">With</div>
+                    <select
+                      value={rulePickB}
+                      onChange={(e) => setRulePickB(e.target.value)}
+                      className="mt-1 w-full rounded-xl border border-slate-200 px-2 py-2 bg-white"
+                    >
+                      <option value="">Choose…</option>
+                      {Array.from({ length: parsePositiveInt(countText) }, (_, i) => i + 1).map((id) => (
+                        <option key={id} value={id}>
+                          {rosterLabel(id)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={handleAddRule}
+                  disabled={!rulePickA}
+                  className="px-3 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold disabled:text-slate-300"
+                >
+                  Add rule
+                </button>
+              </div>
+            </div>
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="font-semibold">Late arrivals &amp; early departures</div>
+              <div className="mt-1 text-sm text-slate-600">
+                Players only get scheduled for the games they are here for.
+              </div>
+
+              <div className="mt-3 grid sm:grid-cols-4 gap-2 items-end">
+                <label className="text-sm">
+                  <div className="text-slate-600">{mode === "couples" ? "Couple" : "Player"}</div>
+                  <select
+                    value={availabilityPick}
+                    onChange={(e) => setAvailabilityPick(e.target.value)}
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-2 py-2 bg-white"
+                  >
+                    <option value="">Choose…</option>
+                    {Array.from({ length: parsePositiveInt(countText) }, (_, i) => i + 1).map((id) => (
+                      <option key={id} value={id}>
+                        {participantLabel(id, roster.map((p) => p.name), false)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm">
+                  <div className="text-slate-600">Arrives at game</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={arriveText}
+                    onChange={(e) => setArriveText(e.target.value)}
+                    placeholder="e.g., 3"
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-sky-200"
+                  />
+                </label>
+                <label className="text-sm">
+                  <div className="text-slate-600">Leaves after game</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={leaveText}
+                    onChange={(e) => setLeaveText(e.target.value)}
+                    placeholder="e.g., 5"
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-sky-200"
+                  />
+                </label>
+                <button
+                  onClick={handleSetAvailability}
+                  disabled={!availabilityPick}
+                  className="px-3 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold disabled:text-slate-300"
+                >
+                  Set
+                </button>
+              </div>
+
+              {roster.some((p) => p.arriveGame || p.leaveAfterGame) ? (
+                <div className="mt-3 space-y-1 text-sm">
+                  {roster.map((p, index) =>
+                    p.arriveGame || p.leaveAfterGame ? (
+                      <div key={index} className="flex items-center gap-2">
+                        <div className="flex-1">
+                          <span className="font-semibold">
+                            {participantLabel(index + 1, roster.map((r) => r.name), false)}
+                          </span>
+                          {p.arriveGame ? ` — arrives at game ${p.arriveGame}` : ""}
+                          {p.leaveAfterGame ? ` — leaves after game ${p.leaveAfterGame}` : ""}
+                        </div>
+                        <button
+                          onClick={() => clearAvailability(index)}
+                          className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    ) : null
+                  )}
+                </div>
+              ) : null}
+
+              {rounds.length ? (
+                <div className="mt-4 flex flex-wrap items-end gap-2 border-t border-slate-100 pt-3">
+                  <label className="text-sm">
+                    <div className="text-slate-600">Replan from game</div>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={replanFromText}
+                      onChange={(e) => setReplanFromText(e.target.value)}
+                      placeholder={String(suggestedReplanGame)}
+                      className="mt-1 w-24 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-sky-200"
+                    />
+                  </label>
+                  <button
+                    onClick={handleReplan}
+                    disabled={!!optimizing}
+                    className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold disabled:text-slate-300"
+                  >
+                    Update Remaining Games
+                  </button>
+                  <div className="text-sm text-slate-600 basis-full">
+                    Earlier games stay as played; byes and partner history carry over.
+                  </div>
+                </div>
+              ) : null}
+            </div>
+
+            {mode === "roundRobin" ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                <div className="font-semibold">Repeat avoidance</div>
+                <div className="mt-1 text-sm text-slate-600">
+                  Repeat partners are always avoided. These also spread out opponents and court numbers (0 = off).
+                </div>
+
+                <label className="mt-3 block">
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span>Repeat opponents</span>
+                    <span className="font-semibold text-slate-700">{opponentWeight}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={10}
+                    step={1}
+                    value={opponentWeight}
+                    onChange={(e) => setOpponentWeight(Number(e.target.value))}
+                    className="mt-1 w-full"
+                  />
+                </label>
+
+                <label className="mt-3 block">
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span>Same court again</span>
+                    <span className="font-semibold text-slate-700">{courtWeight}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={10}
+                    step={1}
+                    value={courtWeight}
+                    onChange={(e) => setCourtWeight(Number(e.target.value))}
+                    className="mt-1 w-full"
+                  />
+                </label>
+              </div>
+            ) : null}
+
+            {mode === "ladder" ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                <div className="font-semibold">Ladder rules</div>
+                <div className="mt-1 text-sm text-slate-600">
+                  Generate plans game 1 (by rating when there are ratings). Enter scores in the Scorekeeper to plan each
+                  next game. The first court listed is the top court.
+                </div>
+                <div className="mt-3 space-y-2">
+                  {(Object.keys(LADDER_RULES) as LadderRule[]).map((rule) => (
+                    <label key={rule} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name="ladderRule"
+                        checked={ladderRule === rule}
+                        onChange={() => setLadderRule(rule)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="font-semibold">{LADDER_RULES[rule].label}</span>
+                        <span className="block text-slate-600">{LADDER_RULES[rule].description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
             {error ? (
               <div className="rounded-2xl border border-red-200 bg-red-50 text-red-800 px-4 py-3">
                 {error}
               </div>
             ) : null}
 
+            <div className="rounded-2xl border border-slate-200 bg-white p-4 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-[12rem]">
+                <div className="font-semibold">Seed</div>
+                <div className="text-sm text-slate-600">
+                  Same inputs + same seed give the same schedule. Leave blank for a new one.
+                </div>
+              </div>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                placeholder="random"
+                aria-label="Seed"
+                className="w-32 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <button
+                onClick={() => setSeedText(String(randomSeed()))}
+                className="px-3 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold"
+              >
+                New seed
+              </button>
+            </div>
+
+            {mode !== "ladder" ? (
+              <label className="rounded-2xl border border-slate-200 bg-white p-4 flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <div className="font-semibold">Optimizer time (seconds)</div>
+                  <div className="text-sm text-slate-600">
+                    Longer searches find fewer repeats on big sessions. 0 skips the optimizer.
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={optimizerText}
+                  onChange={(e) => setOptimizerText(e.target.value)}
+                  placeholder="e.g., 3"
+                  className="w-24 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-200"
+                />
+              </label>
+            ) : null}
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4">
+              <div className="font-semibold">Game timer (TV mode)</div>
+              <div className="text-sm text-slate-600">
+                Counts down each game on the TV, buzzes at zero and moves on to the next game. Leave the length empty for no
+                timer.
+              </div>
+              <div className="mt-3 grid sm:grid-cols-2 gap-3">
+                <label className="text-sm">
+                  <div className="text-slate-600">Game length (minutes)</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={timerMinutesText}
+                    onChange={(e) => setTimerMinutesText(e.target.value)}
+                    placeholder="e.g., 12"
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-200"
+                  />
+                </label>
+                <label className="text-sm">
+                  <div className="text-slate-600">Warm-up / changeover (seconds)</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={changeoverSecondsText}
+                    onChange={(e) => setChangeoverSecondsText(e.target.value)}
+                    placeholder="e.g., 60"
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-200"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {optimizing ? (
+              <div className="rounded-2xl border border-indigo-200 bg-indigo-50 px-4 py-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="font-semibold text-indigo-900">Optimizing schedule…</div>
+                  <button
+                    onClick={stopOptimizer}
+                    className="px-3 py-1.5 rounded-xl border border-indigo-200 bg-white hover:bg-indigo-100 text-sm font-semibold"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="mt-2 h-2 rounded-full bg-white overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all"
+                    style={{ width: `${Math.round(Math.min(1, optimizing.fraction) * 100)}%` }}
+                  />
+                </div>
+                <div className="mt-2 text-sm text-indigo-900">
+                  Best so far: {optimizing.repeats} {mode === "couples" ? "repeat matchups" : "repeat partner pairings"}.
+                  Cancel keeps the quick draft.
+                </div>
+              </div>
+            ) : null}
+
             <div className="flex flex-wrap gap-3 pt-2">
               <button
                 onClick={handleGenerate}
-                className="px-5 py-3 rounded-2xl text-white font-semibold bg-gradient-to-r from-indigo-600 via-sky-600 to-emerald-600 hover:opacity-95"
+                disabled={!!optimizing}
+                className="px-5 py-3 rounded-2xl text-white font-semibold bg-gradient-to-r from-indigo-600 via-sky-600 to-emerald-600 hover:opacity-95 disabled:opacity-50"
               >
                 Generate Assignments
               </button>
+              {rounds.length ? (
+                <>
+                  <button
+                    onClick={() => setTvMode(true)}
+                    className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50 font-semibold"
+                  >
+                    TV Mode
+                  </button>
+                  <button
+                    onClick={openDisplayWindow}
+                    className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50 font-semibold"
+                  >
+                    Open Display Window{displayCount ? ` (${displayCount} open)` : ""}
+                  </button>
+                  <button
+                    onClick={() => setScorekeeperMode(true)}
+                    className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50 font-semibold"
+                  >
+                    Enter Scores
+                  </button>
+                  <button
+                    onClick={() => setLookupMode(true)}
+                    className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50 font-semibold"
+                  >
+                    Player Lookup
+                  </button>
+                  <button
+                    onClick={() => setPrintView("perGame")}
+                    className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50 font-semibold"
+                  >
+                    Print &amp; Export
+                  </button>
+                </>
+              ) : null}
               <button
                 onClick={handleReset}
                 className="px-5 py-3 rounded-2xl bg-white border border-slate-200 hover:bg-slate-50"
@@ -617,22 +4005,373 @@ export default function App() {
               </button>
             </div>
 
+            {editRound ? (
+              <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="font-semibold text-lg">Edit Assignments</div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => {
+                        setEditGameIndex(Math.max(0, editIndex - 1));
+                        setPickedSeat(null);
+                      }}
+                      disabled={editIndex === 0}
+                      className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold disabled:text-slate-300"
+                    >
+                      ←
+                    </button>
+                    <div className="text-sm font-semibold">
+                      Game {editRound.gameNumber} of {rounds.length}
+                    </div>
+                    <button
+                      onClick={() => {
+                        setEditGameIndex(Math.min(rounds.length - 1, editIndex + 1));
+                        setPickedSeat(null);
+                      }}
+                      disabled={editIndex >= rounds.length - 1}
+                      className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold disabled:text-slate-300"
+                    >
+                      →
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-1 text-sm text-slate-600">
+                  Drag a name onto another (or tap one, then the other) to swap them.
+                  {mode === "ladder" ? "" : " Lock a court or a bye to keep it when the remaining games are updated."}
+                </div>
+
+                {issues.length ? (
+                  <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 text-red-800 px-4 py-3 text-sm space-y-0.5">
+                    {issues.map((issue, i) => (
+                      <div key={i}>
+                        <span className="font-semibold">Game {issue.gameNumber}:</span> {issue.message}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                <div className="mt-3 grid sm:grid-cols-2 gap-3">
+                  {editRound.courts.map((c) => {
+                    const locked = isCourtLocked(locks, editRound.gameNumber, c.courtNumber);
+                    const [sideA, sideB] = courtSides(c.group);
+                    const seatsOf = (ids: number[], offset: number) =>
+                      ids.map((id, i) => seatChip({ courtNumber: c.courtNumber, index: offset + i }, id, locked));
+
+                    return (
+                      <div
+                        key={c.courtNumber}
+                        className={`rounded-xl border px-3 py-2 ${locked ? "border-slate-300 bg-slate-50" : "border-slate-200"}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="font-semibold">Court {c.courtNumber}</div>
+                          {mode === "ladder" ? null : (
+                            <button
+                              onClick={() => toggleLock({ gameNumber: editRound.gameNumber, courtNumber: c.courtNumber })}
+                              aria-pressed={locked}
+                              className="px-2 py-0.5 rounded-lg border border-slate-200 hover:bg-slate-100 text-xs font-semibold"
+                            >
+                              {locked ? "🔒 Locked" : "Lock"}
+                            </button>
+                          )}
+                        </div>
+                        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                          {isCutthroat(c.group) ? (
+                            seatsOf(c.group, 0)
+                          ) : (
+                            <>
+                              {seatsOf(sideA, 0)}
+                              <span className="text-xs font-black text-slate-400">VS</span>
+                              {seatsOf(sideB, sideA.length)}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="mt-3">
+                  <div className="text-sm font-semibold text-slate-600">Byes</div>
+                  {editRound.byes.length ? (
+                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                      {editRound.byes.map((id, index) => {
+                        const locked = isByeLocked(locks, editRound.gameNumber, id);
+                        return (
+                          <div key={id} className="flex items-center gap-1">
+                            {seatChip({ courtNumber: null, index }, id, locked)}
+                            {mode === "ladder" ? null : (
+                              <button
+                                onClick={() => toggleLock({ gameNumber: editRound.gameNumber, bye: id })}
+                                aria-pressed={locked}
+                                aria-label={`${locked ? "Unlock" : "Lock"} ${label(id)}'s bye`}
+                                className="px-1.5 py-0.5 rounded-lg border border-slate-200 hover:bg-slate-100 text-xs"
+                              >
+                                {locked ? "🔒" : "🔓"}
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className="mt-1 text-sm text-slate-500">None</div>
+                  )}
+                </div>
+              </div>
+            ) : null}
+
             {stats ? (
               <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3">
                 <div className="font-semibold text-lg">Session Summary</div>
                 <div className="mt-2 text-sm text-slate-700 space-y-1">
+                  {issues.length ? (
+                    <div className="font-semibold text-red-700">
+                      {issues.length === 1 ? "1 problem" : `${issues.length} problems`} in the edited schedule (see Edit
+                      Assignments)
+                    </div>
+                  ) : null}
                   <div>
                     Byes — Min: <span className="font-semibold">{stats.minByes}</span> | Max:{" "}
                     <span className="font-semibold">{stats.maxByes}</span>
                   </div>
+                  {stats.shortHandedGames ? (
+                    <div>
+                      Singles/cutthroat games — Min: <span className="font-semibold">{stats.shortHandedGames.min}</span> | Max:{" "}
+                      <span className="font-semibold">{stats.shortHandedGames.max}</span>
+                    </div>
+                  ) : null}
                   <div>
                     {mode === "couples" ? "Repeat matchups" : "Repeat partner pairings"}:{" "}
-                    <span className="font-semibold">{stats.repeatPairs}</span>
+                    <span className="font-semibold">{stats.repeatPairs}</span> (theoretical minimum:{" "}
+                    <span className="font-semibold">{stats.minRepeatPairs}</span>)
+                  </div>
+                  {stats.fullRotation ? (
+                    <div className="font-semibold text-emerald-700">
+                      Repeat-free: every couple plays every other couple exactly once (a full rotation).
+                    </div>
+                  ) : null}
+                  {recipe ? (
+                    <div>
+                      Seed: <span className="font-semibold">{recipe.seed}</span>
+                    </div>
+                  ) : null}
+                  {stats.repeatOpponents !== null ? (
+                    <div>
+                      Repeat opponent pairings: <span className="font-semibold">{stats.repeatOpponents}</span>
+                    </div>
+                  ) : null}
+                  <div>
+                    Courts — Most games on one court: <span className="font-semibold">{stats.maxSameCourt}</span> | Avg different courts
+                    per player: <span className="font-semibold">{stats.avgDistinctCourts.toFixed(1)}</span>
                   </div>
+                  {stats.avgTeamGap !== null && stats.maxTeamGap !== null ? (
+                    <div>
+                      Team rating gap — Avg: <span className="font-semibold">{stats.avgTeamGap.toFixed(2)}</span> | Worst:{" "}
+                      <span className="font-semibold">{stats.maxTeamGap.toFixed(2)}</span>
+                    </div>
+                  ) : null}
                 </div>
+
+                <button
+                  onClick={() => setShowFairness((v) => !v)}
+                  className="mt-3 px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold"
+                >
+                  {showFairness ? "Hide Fairness Report" : "Fairness Report"}
+                </button>
+                {showFairness ? (
+                  <div className="mt-3">
+                    <FairnessReportView report={fairnessReport(rounds, mode)} mode={mode} label={label} />
+                  </div>
+                ) : null}
+
+                {recipe ? (
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={() => handleShare()}
+                      disabled={!!optimizing}
+                      className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold disabled:text-slate-300"
+                    >
+                      Copy Share Link
+                    </button>
+                    <button
+                      onClick={() => handleShare(LOOKUP_HASH_PREFIX)}
+                      disabled={!!optimizing}
+                      className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 text-sm font-semibold disabled:text-slate-300"
+                    >
+                      Copy Player Link
+                    </button>
+                    {shareUrl ? (
+                      <input
+                        type="text"
+                        readOnly
+                        value={shareUrl}
+                        onFocus={(e) => e.target.select()}
+                        aria-label="Share link"
+                        className="flex-1 min-w-0 rounded-xl border border-slate-200 px-3 py-1.5 text-sm text-slate-600"
+                      />
+                    ) : null}
+                  </div>
+                ) : null}
               </div>
             ) : null}
 
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+              <div className="font-semibold text-lg">Saved sessions</div>
+              <div className="mt-1 text-sm text-slate-600">
+                The current session is saved automatically on this device. Save a copy to reopen it later.
+              </div>
+
+              <div className="mt-3 flex gap-2">
+                <input
+                  type="text"
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  placeholder="Session name (e.g., Tuesday Open Play)"
+                  className="flex-1 min-w-0 rounded-xl border border-slate-200 px-3 py-2 outline-none focus:ring-2 focus:ring-sky-200"
+                />
+                <button
+                  onClick={handleSaveSession}
+                  className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold"
+                >
+                  Save
+                </button>
+              </div>
+
+              {savedSessions.length ? (
+                <div className="mt-3 space-y-2">
+                  {savedSessions.map((saved) => (
+                    <div key={saved.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <input
+                        type="text"
+                        value={saved.name}
+                        onChange={(e) => renameSession(saved.id, e.target.value)}
+                        aria-label="Session name"
+                        className="flex-1 min-w-0 rounded-xl border border-slate-200 px-3 py-1.5 outline-none focus:ring-2 focus:ring-sky-200"
+                      />
+                      <div className="text-slate-500">{formatSavedAt(saved.file.savedAt)}</div>
+                      <button
+                        onClick={() => handleOpenSession(saved)}
+                        className="px-3 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50 font-semibold"
+                      >
+                        Open
+                      </button>
+                      <button
+                        onClick={() => handleDuplicateSession(saved)}
+                        className="px-3 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => deleteSession(saved.id)}
+                        className="px-3 py-1.5 rounded-xl border border-slate-200 hover:bg-red-50 text-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+              <div className="font-semibold text-lg">League</div>
+              <div className="mt-1 text-sm text-slate-600">
+                Record each finished session. New sessions then steer named players away from recent partners (each week
+                further back counts half as much) and let whoever sat out most last time play first.
+              </div>
+
+              <label className="mt-3 block">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span>League history weight</span>
+                  <span className="font-semibold text-slate-700">{leagueWeight}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  step={1}
+                  value={leagueWeight}
+                  onChange={(e) => setLeagueWeight(Number(e.target.value))}
+                  className="mt-1 w-full"
+                />
+              </label>
+
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <button
+                  onClick={handleRecordLeague}
+                  disabled={!rounds.length || !sessionRoster.some((p) => p.name.trim())}
+                  className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold disabled:text-slate-300"
+                >
+                  Record This Session
+                </button>
+                {league.length ? (
+                  <button
+                    onClick={() => setShowSeason((v) => !v)}
+                    className="px-4 py-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-semibold"
+                  >
+                    {showSeason ? "Hide Season Report" : "Season Report"}
+                  </button>
+                ) : null}
+              </div>
+              {rounds.length && !sessionRoster.some((p) => p.name.trim()) ? (
+                <div className="mt-2 text-sm text-slate-600">Add names to the roster to record a session (players are matched by name).</div>
+              ) : null}
+
+              {league.length ? (
+                <div className="mt-3 space-y-2">
+                  {league.map((entry) => (
+                    <div key={entry.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <span className="font-semibold">{formatSavedAt(entry.date)}</span>
+                        <span className="text-slate-500">
+                          {" "}
+                          · {MODE_TITLES[entry.mode]} · {entry.rounds.length} games ·{" "}
+                          {entry.names.filter((n) => n.trim()).length} named
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => setLeague((prev) => prev.filter((e) => e.id !== entry.id))}
+                        className="px-3 py-1.5 rounded-xl border border-slate-200 hover:bg-red-50 text-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              {showSeason && league.length ? (
+                <div className="mt-3 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500 border-b border-slate-200">
+                        <th className="px-3 py-1.5">Name</th>
+                        <th className="px-3 py-1.5 text-right">Sessions</th>
+                        <th className="px-3 py-1.5 text-right">GP</th>
+                        <th className="px-3 py-1.5 text-right">Byes</th>
+                        <th className="px-3 py-1.5 text-right">W</th>
+                        <th className="px-3 py-1.5 text-right">L</th>
+                        <th className="px-3 py-1.5 text-right">{mode === "couples" ? "Opponents" : "Partners"}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {seasonReport(league).map((row) => (
+                        <tr key={row.name} className="border-b border-slate-100">
+                          <td className="px-3 py-1.5 font-semibold">{row.name}</td>
+                          <td className="px-3 py-1.5 text-right">{row.sessions}</td>
+                          <td className="px-3 py-1.5 text-right">{row.played}</td>
+                          <td className="px-3 py-1.5 text-right">{row.byes}</td>
+                          <td className="px-3 py-1.5 text-right font-semibold">{row.wins}</td>
+                          <td className="px-3 py-1.5 text-right">{row.losses}</td>
+                          <td className="px-3 py-1.5 text-right">{row.partners}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+            </div>
+
             <div className="text-xs text-slate-600 pt-2">
               Note: This scheduler balances byes and minimizes repeats, but some repeats can still be unavoidable depending on counts.
             </div>
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSession, fairnessReport, scheduleIssues } from "./analyze";
+import type { Round } from "./core";
+
+const rounds: Round[] = [
+  { gameNumber: 1, courts: [{ courtNumber: 1, group: [1, 2, 3, 4] }], byes: [5] },
+  { gameNumber: 2, courts: [{ courtNumber: 1, group: [1, 2, 5, 3] }], byes: [4] },
+  { gameNumber: 3, courts: [{ courtNumber: 1, group: [4, 5, 1, 3] }], byes: [2] },
+];
+
+describe("fairnessReport", () => {
+  it("counts byes, partners and opponents per player", () => {
+    const report = fairnessReport(rounds, "roundRobin");
+
+    expect(report.players).toEqual([1, 2, 3, 4, 5]);
+    expect(report.byes).toEqual([0, 1, 0, 1, 1]);
+    expect(report.played).toEqual([3, 2, 3, 2, 2]);
+    expect(report.partners?.[0]).toEqual([0, 2, 1, 0, 0]);
+    expect(report.opponents[0]).toEqual([0, 0, 2, 2, 2]);
+    // Symmetric, and nobody partners themselves
+    expect(report.partners?.[1][0]).toBe(2);
+    expect(report.opponents.every((row, i) => row[i] === 0)).toBe(true);
+  });
+
+  it("lists every repeated pairing with its games, most games first", () => {
+    expect(fairnessReport(rounds, "roundRobin").repeats).toEqual([
+      { kind: "partners", players: [1, 2], games: [1, 2] },
+      { kind: "opponents", players: [1, 3], games: [1, 2] },
+      { kind: "opponents", players: [1, 4], games: [1, 3] },
+      { kind: "opponents", players: [1, 5], games: [2, 3] },
+      { kind: "opponents", players: [2, 3], games: [1, 2] },
+    ]);
+  });
+
+  it("agrees with the Session Summary totals", () => {
+    const report = fairnessReport(rounds, "roundRobin");
+    const stats = analyzeSession(rounds, "roundRobin");
+    const extra = (kind: string) =>
+      report.repeats.filter((r) => r.kind === kind).reduce((sum, r) => sum + r.games.length - 1, 0);
+
+    expect(extra("partners")).toBe(stats.repeatPairs);
+    expect(extra("opponents")).toBe(stats.repeatOpponents);
+    expect(Math.max(...report.byes)).toBe(stats.maxByes);
+    expect(Math.min(...report.byes)).toBe(stats.minByes);
+  });
+
+  it("reports couples' matchups without a partner matrix", () => {
+    const couples: Round[] = [
+      { gameNumber: 1, courts: [{ courtNumber: 1, group: [1, 2] }], byes: [3] },
+      { gameNumber: 2, courts: [{ courtNumber: 1, group: [2, 1] }], byes: [3] },
+    ];
+    const report = fairnessReport(couples, "couples");
+
+    expect(report.partners).toBeNull();
+    expect(report.opponents).toEqual([
+      [0, 2, 0],
+      [2, 0, 0],
+      [0, 0, 0],
+    ]);
+    expect(report.byes).toEqual([0, 0, 2]);
+    expect(report.repeats).toEqual([{ kind: "opponents", players: [1, 2], games: [1, 2] }]);
+  });
+});
+
+describe("analyzeSession", () => {
+  it("counts players who never sat out in the bye range", () => {
+    // #1 and #3 play every game
+    expect(analyzeSession(rounds, "roundRobin")).toMatchObject({ minByes: 0, maxByes: 1 });
+  });
+});
+
+describe("scheduleIssues", () => {
+  const label = (id: number) => `#${id}`;
+
+  it("finds nothing wrong with a clean schedule", () => {
+    expect(scheduleIssues(rounds, "roundRobin", [{ kind: "notPartners", players: [1, 5] }], label)).toEqual([]);
+  });
+
+  it("flags someone placed twice and every broken rule, by game", () => {
+    const edited: Round[] = [rounds[0], { ...rounds[1], byes: [1] }, rounds[2]];
+    const issues = scheduleIssues(
+      edited,
+      "roundRobin",
+      [
+        { kind: "pinPartners", players: [4, 5] },
+        { kind: "notOpponents", players: [1, 3] },
+        { kind: "onlyCourts", player: 2, courts: [2] },
+      ],
+      label
+    );
+
+    expect(issues).toEqual([
+      { gameNumber: 1, message: "Breaks the rule: #4 and #5 always partner." },
+      { gameNumber: 1, message: "Breaks the rule: #1 and #3 never face each other." },
+      { gameNumber: 1, message: "Breaks the rule: #2 only plays on court 2." },
+      { gameNumber: 2, message: "#1 is placed twice." },
+      { gameNumber: 2, message: "Breaks the rule: #1 and #3 never face each other." },
+      { gameNumber: 2, message: "Breaks the rule: #2 only plays on court 2." },
+    ]);
+  });
+
+  it("lets someone sit out a game they can't play", () => {
+    // #5 sits out game 1 and plays games 2-3
+    const onlyLater = scheduleIssues(rounds, "roundRobin", [{ kind: "onlyGames", player: 5, games: [2, 3] }], label);
+    const onlyFirst = scheduleIssues(rounds, "roundRobin", [{ kind: "onlyGames", player: 5, games: [1] }], label);
+
+    expect(onlyLater).toEqual([]);
+    expect(onlyFirst.map((i) => i.gameNumber)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Session Summary: bye spread, singles/cutthroat spread, repeat partners/matchups and opponents, court spread and team rating gaps.
+ * Fairness report: the same schedule person by person (byes, who partnered/faced whom, and in which games the repeats fell).
+ * Schedule issues: what a hand-edited schedule got wrong (someone placed twice, a hard rule broken).
+ * Shown on the setup screen after Generate; the numbers describe a finished schedule, not a plan.
+ */
+
+import {
+  courtFollowsRules,
+  courtKey,
+  indexConstraints,
+  isShortHanded,
+  opponentKeysRR,
+  pairKey,
+  partnerKeysRR,
+  teamRatingGap,
+  teamsFollowRules,
+  type HardConstraint,
+  type Mode,
+  type RatingBalance,
+  type Round,
+} from "./core";
+import { describeConstraint } from "./generate";
+import { minimumRepeats } from "./optimizer";
+
+export type SessionSummary = {
+  minByes: number;
+  maxByes: number;
+  shortHandedGames: { min: number; max: number } | null; // singles/cutthroat games per player; null when there were none
+  repeatPairs: number; // couples: repeat matchups; roundRobin/ladder: repeat partners
+  minRepeatPairs: number; // lower bound for repeatPairs with these byes
+  fullRotation: boolean; // couples: every couple met every other couple exactly once (so no schedule has fewer repeats)
+  repeatOpponents: number | null; // null for couples
+  maxSameCourt: number; // most games anyone played on one court
+  avgDistinctCourts: number;
+  avgTeamGap: number | null; // null without ratings
+  maxTeamGap: number | null;
+};
+
+export type RepeatedPairing = {
+  kind: "partners" | "opponents"; // couples: "opponents" is a repeat matchup
+  players: [number, number];
+  games: number[]; // game numbers, in order
+};
+
+export type FairnessReport = {
+  players: number[]; // everyone in the schedule (on a court or a bye), ascending; matrix rows/columns follow this order
+  byes: number[]; // per entry of players
+  played: number[];
+  partners: number[][] | null; // games together; null for couples (a couple always plays together)
+  opponents: number[][]; // games against each other
+  repeats: RepeatedPairing[]; // most games first
+};
+
+export type ScheduleIssue = {
+  gameNumber: number;
+  message: string;
+};
+
+export function analyzeSession(rounds: Round[], mode: Mode, balance: RatingBalance | null = null): SessionSummary {
+  const byeCounts = new Map<number, number>();
+  const pairCounts = new Map<string, number>();
+  const opponentCounts = new Map<string, number>();
+  const courtCounts = new Map<string, number>(); // "player@court" -> games there
+  const teamGaps: number[] = [];
+  const shortCounts = new Map<number, number>(); // every player who played -> singles/cutthroat games
+
+  for (const round of rounds) {
+    for (const b of round.byes) {
+      byeCounts.set(b, (byeCounts.get(b) ?? 0) + 1);
+    }
+
+    for (const court of round.courts) {
+      const g = court.group;
+
+      for (const p of g) {
+        const k = courtKey(p, court.courtNumber);
+        courtCounts.set(k, (courtCounts.get(k) ?? 0) + 1);
+        shortCounts.set(p, (shortCounts.get(p) ?? 0) + (isShortHanded(g, mode) ? 1 : 0));
+      }
+
+      if (mode === "couples") {
+        const key = pairKey(g[0], g[1]);
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+      } else {
+        for (const k of partnerKeysRR(g)) pairCounts.set(k, (pairCounts.get(k) ?? 0) + 1);
+        for (const k of opponentKeysRR(g)) opponentCounts.set(k, (opponentCounts.get(k) ?? 0) + 1);
+        if (balance && g.length !== 3) teamGaps.push(teamRatingGap(g, balance.ratingOf));
+      }
+    }
+  }
+
+  // Everyone who sat out or played, so people who never sat out count as 0 byes
+  const everyone = new Set([...byeCounts.keys(), ...shortCounts.keys()]);
+  const byeValues = Array.from(everyone, (p) => byeCounts.get(p) ?? 0);
+  const minByes = byeValues.length ? Math.min(...byeValues) : 0;
+  const maxByes = byeValues.length ? Math.max(...byeValues) : 0;
+
+  const shortValues = Array.from(shortCounts.values());
+  const shortHandedGames = shortValues.some((n) => n > 0)
+    ? { min: Math.min(...shortValues), max: Math.max(...shortValues) }
+    : null;
+
+  let repeatPairs = 0;
+  for (const count of pairCounts.values()) {
+    if (count > 1) repeatPairs += count - 1;
+  }
+
+  const fullRotation =
+    mode === "couples" &&
+    everyone.size >= 2 &&
+    repeatPairs === 0 &&
+    pairCounts.size === (everyone.size * (everyone.size - 1)) / 2;
+
+  let repeatOpponents = 0;
+  for (const count of opponentCounts.values()) {
+    if (count > 1) repeatOpponents += count - 1;
+  }
+
+  // Court spread: how often anyone lands on the same court, and how many different courts people see
+  const distinctCourts = new Map<number, number>();
+  let maxSameCourt = 0;
+  for (const [key, count] of courtCounts) {
+    const player = Number(key.split("@")[0]);
+    distinctCourts.set(player, (distinctCourts.get(player) ?? 0) + 1);
+    maxSameCourt = Math.max(maxSameCourt, count);
+  }
+  const distinctValues = Array.from(distinctCourts.values());
+  const avgDistinctCourts = distinctValues.length
+    ? distinctValues.reduce((sum, n) => sum + n, 0) / distinctValues.length
+    : 0;
+
+  const avgTeamGap = teamGaps.length ? teamGaps.reduce((sum, g) => sum + g, 0) / teamGaps.length : null;
+  const maxTeamGap = teamGaps.length ? Math.max(...teamGaps) : null;
+
+  return {
+    minByes,
+    maxByes,
+    shortHandedGames,
+    repeatPairs,
+    minRepeatPairs: minimumRepeats(rounds, mode),
+    fullRotation,
+    repeatOpponents: mode === "couples" ? null : repeatOpponents,
+    maxSameCourt,
+    avgDistinctCourts,
+    avgTeamGap,
+    maxTeamGap,
+  };
+}
+
+export function fairnessReport(rounds: Round[], mode: Mode): FairnessReport {
+  const byes = new Map<number, number>();
+  const played = new Map<number, number>();
+  const partnerGames = new Map<string, number[]>(); // pairKey -> game numbers
+  const opponentGames = new Map<string, number[]>();
+  const note = (games: Map<string, number[]>, key: string, gameNumber: number) =>
+    games.set(key, [...(games.get(key) ?? []), gameNumber]);
+
+  for (const round of rounds) {
+    for (const b of round.byes) byes.set(b, (byes.get(b) ?? 0) + 1);
+
+    for (const { group: g } of round.courts) {
+      for (const p of g) played.set(p, (played.get(p) ?? 0) + 1);
+
+      if (mode === "couples") {
+        note(opponentGames, pairKey(g[0], g[1]), round.gameNumber);
+      } else {
+        for (const k of partnerKeysRR(g)) note(partnerGames, k, round.gameNumber);
+        for (const k of opponentKeysRR(g)) note(opponentGames, k, round.gameNumber);
+      }
+    }
+  }
+
+  const players = Array.from(new Set([...byes.keys(), ...played.keys()])).sort((a, b) => a - b);
+  const index = new Map(players.map((p, i) => [p, i]));
+  const matrix = (games: Map<string, number[]>): number[][] => {
+    const counts = players.map(() => new Array<number>(players.length).fill(0));
+    for (const [key, list] of games) {
+      const [a, b] = key.split("-").map((id) => index.get(Number(id)) ?? 0);
+      counts[a][b] = counts[b][a] = list.length;
+    }
+    return counts;
+  };
+
+  const repeats: RepeatedPairing[] = [];
+  for (const [kind, games] of [
+    ["partners", partnerGames],
+    ["opponents", opponentGames],
+  ] as const) {
+    for (const [key, list] of games) {
+      if (list.length < 2) continue;
+      const [a, b] = key.split("-").map(Number);
+      repeats.push({ kind, players: [a, b], games: list });
+    }
+  }
+  repeats.sort((x, y) => y.games.length - x.games.length || x.players[0] - y.players[0] || x.players[1] - y.players[1]);
+
+  return {
+    players,
+    byes: players.map((p) => byes.get(p) ?? 0),
+    played: players.map((p) => played.get(p) ?? 0),
+    partners: mode === "couples" ? null : matrix(partnerGames),
+    opponents: matrix(opponentGames),
+    repeats,
+  };
+}
+
+export function scheduleIssues(
+  rounds: Round[],
+  mode: Mode,
+  constraints: HardConstraint[],
+  label: (id: number) => string
+): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = [];
+  const rules = constraints.map((c) => ({ c, index: indexConstraints([c]) }));
+
+  for (const round of rounds) {
+    const add = (message: string) => issues.push({ gameNumber: round.gameNumber, message });
+    const courtOf = new Map<number, number | null>(); // participant -> court number (null = bye)
+
+    const placements = [
+      ...round.courts.flatMap((c) => c.group.map((p) => [p, c.courtNumber] as const)),
+      ...round.byes.map((p) => [p, null] as const),
+    ];
+    for (const [p, court] of placements) {
+      if (courtOf.has(p)) add(`${label(p)} is placed twice.`);
+      courtOf.set(p, court);
+    }
+
+    for (const { c, index } of rules) {
+      let broken: boolean;
+      if (c.kind === "pinPartners") {
+        // Both here: same court (as one team) or both sitting out
+        const [a, b] = c.players.map((p) => courtOf.get(p));
+        broken = a !== undefined && b !== undefined && a !== b;
+      } else if (c.kind === "onlyGames") {
+        // Sitting out a game they can't play is fine; only a court placement breaks it
+        broken = typeof courtOf.get(c.player) === "number" && !c.games.includes(round.gameNumber);
+      } else {
+        broken = false;
+      }
+      broken ||= round.courts.some(
+        (court) => !teamsFollowRules(court.group, index, mode) || !courtFollowsRules(court.group, court.courtNumber, index)
+      );
+      if (broken) add(`Breaks the rule: ${describeConstraint(c, label)}.`);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,358 @@
+/**
+ * Command-line schedule generator (Node): same inputs as the setup screen, as flags or a JSON file.
+ * - npm run schedule -- --mode roundRobin --players 13 --courts 1-3 --games 9 --seed 42
+ * - npm run schedule -- --input session.json --format json
+ * - Flags override the JSON file; the seed is always printed so a run can be repeated exactly
+ * - --optimize runs the whole-session optimizer for a time budget; --iterations replays an exact iteration count
+ * - Ladder mode plans game 1 only (later games follow entered results)
+ */
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  analyzeSession,
+  courtSides,
+  generateSchedule,
+  normalizeCategory,
+  optimizeSession,
+  parseCourtsInput,
+  parseNumberList,
+  randomSeed,
+  ratingBalanceFor,
+  type Availability,
+  type CourtChange,
+  type HardConstraint,
+  type LadderRule,
+  type Mode,
+  type Round,
+  type ScheduleArgs,
+} from "./index";
+
+type CliInput = {
+  mode: Mode;
+  players: number; // couples mode: number of couples
+  courts: string | number[]; // count ("8") or list/ranges ("1-3,5"); JSON may list court numbers
+  courtChanges: CourtChange[]; // from a given game on, only these courts (JSON only)
+  singles: string | number[]; // Round Robin singles courts, as a list ("7,8")
+  spareCourts: boolean; // Round Robin: 2-3 leftovers play singles/cutthroat on a free court
+  games: number;
+  seed: number; // 0 = pick one
+  balance: number; // rating balance weight (0-10)
+  opponents: number; // repeat opponent weight (0-10)
+  courtRepeats: number; // repeat court weight (0-10)
+  optimize: number; // optimizer time budget in seconds (0 = draft only)
+  iterations?: number; // replay the optimizer for exactly this many iterations
+  ladderRule: LadderRule;
+  mixed: boolean;
+  ratings: (number | undefined)[]; // index 0 = participant #1
+  categories: (string | undefined)[];
+  availability: Availability[];
+  constraints: HardConstraint[];
+  names: string[];
+  format: "table" | "json";
+};
+
+const DEFAULTS: CliInput = {
+  mode: "roundRobin",
+  players: 0,
+  courts: "",
+  courtChanges: [],
+  singles: "",
+  spareCourts: false,
+  games: 0,
+  seed: 0,
+  balance: 5,
+  opponents: 3,
+  courtRepeats: 2,
+  optimize: 0,
+  ladderRule: "split",
+  mixed: false,
+  ratings: [],
+  categories: [],
+  availability: [],
+  constraints: [],
+  names: [],
+  format: "table",
+};
+
+const USAGE = `Usage: npm run schedule -- [options]
+
+  --mode <couples|roundRobin|ladder>   default roundRobin
+  --players <n>                        players (couples mode: couples)
+  --courts <text>                      court count ("8") or list/ranges ("1-3,5,6")
+  --singles <list>                     Round Robin courts played 1 vs 1 ("8" or "7-8")
+  --spare-courts                       Round Robin: 2-3 leftovers play singles/cutthroat on a free court
+  --games <n>
+  --seed <n>                           same inputs + same seed -> same schedule (default: random)
+  --balance <0-10>                     rating balance weight (default 5; needs ratings in --input)
+  --opponents <0-10>                   repeat opponent weight (default 3)
+  --court-repeats <0-10>               repeat court weight (default 2)
+  --optimize <seconds>                 run the optimizer after the draft (default 0 = draft only)
+  --iterations <n>                     run the optimizer for exactly n iterations instead
+  --ladder-rule <split|keepPartners>
+  --mixed                              mixed doubles (needs categories in --input)
+  --input <file.json>                  any of the above (camelCase keys) plus ratings, categories,
+                                       availability, constraints, names and courtChanges arrays
+                                       (courtChanges: [{ "fromGame": 5, "courts": [1, 2, 3] }])
+  --format <table|json>                default table
+  --help`;
+
+class CliError extends Error {}
+
+function numberFlag(name: string, value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new CliError(`--${name} must be a number (got "${value}").`);
+  return n;
+}
+
+function oneOf<T extends string>(name: string, value: unknown, options: readonly T[]): T {
+  if (options.includes(value as T)) return value as T;
+  throw new CliError(`--${name} must be one of ${options.join(", ")} (got "${value}").`);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isIntegerList = (v: unknown) => Array.isArray(v) && v.every((n) => Number.isInteger(n));
+const isOptionalNumber = (v: unknown) => v === undefined || v === null || typeof v === "number";
+const isOptionalString = (v: unknown) => v === null || typeof v === "string";
+
+function isConstraint(c: unknown): boolean {
+  if (!isObject(c)) return false;
+  switch (c.kind) {
+    case "pinPartners":
+    case "notPartners":
+    case "notOpponents":
+      return isIntegerList(c.players) && (c.players as number[]).length === 2;
+    case "onlyGames":
+      return Number.isInteger(c.player) && isIntegerList(c.games);
+    case "onlyCourts":
+      return Number.isInteger(c.player) && isIntegerList(c.courts);
+    default:
+      return false;
+  }
+}
+
+function listField<T>(name: string, value: unknown, expected: string, isItem: (item: unknown) => boolean): T[] {
+  // JSON-only fields: a wrong shape names the field instead of failing deep inside the scheduler
+  if (!Array.isArray(value)) {
+    throw new CliError(`${name} must be a list of ${expected} (got ${JSON.stringify(value)}).`);
+  }
+  const bad = value.findIndex((item) => !isItem(item));
+  if (bad >= 0) throw new CliError(`${name}[${bad}] is invalid: expected ${expected} (got ${JSON.stringify(value[bad])}).`);
+  return value as T[];
+}
+
+function readInputFile(path: string): Partial<CliInput> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new CliError(`Couldn't read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new CliError(`${path} must hold a JSON object.`);
+
+  return raw as Partial<CliInput>;
+}
+
+function readInput(argv: string[]): CliInput | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      mode: { type: "string" },
+      players: { type: "string" },
+      courts: { type: "string" },
+      singles: { type: "string" },
+      "spare-courts": { type: "boolean" },
+      games: { type: "string" },
+      seed: { type: "string" },
+      balance: { type: "string" },
+      opponents: { type: "string" },
+      "court-repeats": { type: "string" },
+      optimize: { type: "string" },
+      iterations: { type: "string" },
+      "ladder-rule": { type: "string" },
+      mixed: { type: "boolean" },
+      input: { type: "string" },
+      format: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) return null;
+
+  const file = values.input ? readInputFile(values.input) : {};
+  const flags: Partial<Record<keyof CliInput, unknown>> = {
+    mode: values.mode,
+    players: values.players,
+    courts: values.courts,
+    singles: values.singles,
+    spareCourts: values["spare-courts"],
+    games: values.games,
+    seed: values.seed,
+    balance: values.balance,
+    opponents: values.opponents,
+    courtRepeats: values["court-repeats"],
+    optimize: values.optimize,
+    iterations: values.iterations,
+    ladderRule: values["ladder-rule"],
+    mixed: values.mixed,
+    format: values.format,
+  };
+  const merged: Record<string, unknown> = { ...DEFAULTS, ...file };
+  for (const [key, value] of Object.entries(flags)) if (value !== undefined) merged[key] = value;
+
+  return {
+    ...(merged as CliInput),
+    mode: oneOf("mode", merged.mode, ["couples", "roundRobin", "ladder"] as const),
+    players: numberFlag("players", merged.players),
+    courts: Array.isArray(merged.courts) ? merged.courts : String(merged.courts ?? ""),
+    courtChanges: listField(
+      "courtChanges",
+      merged.courtChanges,
+      '{ "fromGame": 5, "courts": [1, 2] } objects',
+      (c) => isObject(c) && Number.isInteger(c.fromGame) && isIntegerList(c.courts)
+    ),
+    singles: Array.isArray(merged.singles) ? merged.singles : String(merged.singles ?? ""),
+    games: numberFlag("games", merged.games),
+    seed: numberFlag("seed", merged.seed),
+    balance: numberFlag("balance", merged.balance),
+    opponents: numberFlag("opponents", merged.opponents),
+    courtRepeats: numberFlag("court-repeats", merged.courtRepeats),
+    optimize: numberFlag("optimize", merged.optimize),
+    iterations: merged.iterations === undefined ? undefined : numberFlag("iterations", merged.iterations),
+    ladderRule: oneOf("ladder-rule", merged.ladderRule, ["split", "keepPartners"] as const),
+    mixed: merged.mixed === true,
+    spareCourts: merged.spareCourts === true,
+    ratings: listField<number | null>("ratings", merged.ratings, "numbers (or null)", isOptionalNumber).map((r) => r ?? undefined),
+    categories: listField<string | null>("categories", merged.categories, "strings (or null)", isOptionalString).map(
+      (c) => c ?? undefined
+    ),
+    availability: listField<Availability | null>(
+      "availability",
+      merged.availability,
+      '{ "arriveGame": 3, "leaveAfterGame": 6 } objects (or null)',
+      (a) => a === null || (isObject(a) && isOptionalNumber(a.arriveGame) && isOptionalNumber(a.leaveAfterGame))
+    ).map((a) => a ?? {}),
+    constraints: listField(
+      "constraints",
+      merged.constraints,
+      'rules like { "kind": "notPartners", "players": [1, 2] }',
+      isConstraint
+    ),
+    names: listField<string | null>("names", merged.names, "strings (or null)", isOptionalString).map((n) => n ?? ""),
+    format: oneOf("format", merged.format, ["table", "json"] as const),
+  };
+}
+
+function courtList(values: unknown[]): { courts: number[]; error: string } {
+  // A JSON list names the courts themselves, so [4] is court 4 (the text "4" would be four courts)
+  if (!values.length || !values.every((v) => Number.isInteger(v) && (v as number) > 0)) {
+    return { courts: [], error: "courts must list positive court numbers (example: [1, 2, 5])." };
+  }
+  return { courts: Array.from(new Set(values as number[])).sort((a, b) => a - b), error: "" };
+}
+
+function buildSchedule(input: CliInput): { args: ScheduleArgs; rounds: Round[]; iterations: number } {
+  const { courts, error: courtsError } = Array.isArray(input.courts)
+    ? courtList(input.courts)
+    : parseCourtsInput(input.courts);
+  if (courtsError) throw new CliError(courtsError);
+
+  const singles = Array.isArray(input.singles)
+    ? input.singles
+    : input.singles.trim()
+      ? parseNumberList(input.singles)
+      : [];
+  if (!singles) throw new CliError(`--singles must list court numbers (example: "7,8").`);
+
+  const args: ScheduleArgs = {
+    mode: input.mode,
+    participantCount: Math.floor(input.players),
+    courtNumbers: courts,
+    courtChanges: input.courtChanges,
+    singlesCourts: singles,
+    spareCourts: input.spareCourts,
+    games: Math.floor(input.games),
+    ratings: input.ratings,
+    balanceWeight: input.balance,
+    opponentWeight: input.opponents,
+    courtWeight: input.courtRepeats,
+    availability: input.availability,
+    ladderRule: input.ladderRule,
+    categories: input.categories,
+    mixed: input.mixed,
+    constraints: input.constraints,
+    seed: Math.floor(input.seed) || randomSeed(),
+  };
+
+  const draft = generateSchedule(args);
+  if (draft.error) throw new CliError(draft.error);
+
+  const optimize = input.mode !== "ladder" && (input.optimize > 0 || (input.iterations ?? 0) > 0);
+  if (!optimize) return { args, rounds: draft.rounds, iterations: 0 };
+
+  const result = optimizeSession({
+    mode: args.mode,
+    rounds: draft.rounds,
+    frozenGames: 0,
+    ratings: input.ratings,
+    balanceWeight: input.balance,
+    opponentWeight: input.opponents,
+    courtWeight: input.courtRepeats,
+    categories: input.mixed && input.mode === "roundRobin" ? input.categories.map(normalizeCategory) : [],
+    constraints: input.constraints,
+    seed: args.seed,
+    timeBudgetMs: input.optimize * 1000,
+    maxIterations: input.iterations,
+  });
+  return { args, rounds: result.rounds, iterations: result.iterations };
+}
+
+function formatTable(input: CliInput, args: ScheduleArgs, rounds: Round[], iterations: number): string {
+  const label = (id: number) => (input.names[id - 1] ?? "").trim() || String(id);
+  const side = (ids: number[]) => ids.map(label).join(" - ");
+  const lines: string[] = [];
+
+  for (const round of rounds) {
+    lines.push(`Game ${round.gameNumber}`);
+    for (const { courtNumber, group } of round.courts) {
+      const [sideA, sideB] = courtSides(group);
+      const match = group.length === 3 ? `${side(group)}  (cutthroat)` : `${side(sideA)}  vs  ${side(sideB)}`;
+      lines.push(`  Court ${courtNumber}: ${match}`);
+    }
+    if (round.byes.length) lines.push(`  Byes: ${round.byes.map(label).join(", ")}`);
+    lines.push("");
+  }
+
+  const balance = args.mode === "roundRobin" ? ratingBalanceFor(input.ratings, input.balance) : null;
+  const stats = analyzeSession(rounds, args.mode, balance);
+  lines.push(`Byes per ${args.mode === "couples" ? "couple" : "player"}: ${stats.minByes}–${stats.maxByes}`);
+  if (stats.shortHandedGames) lines.push(`Singles/cutthroat games per player: ${stats.shortHandedGames.min}–${stats.shortHandedGames.max}`);
+  lines.push(`Repeat ${args.mode === "couples" ? "matchups" : "partners"}: ${stats.repeatPairs} (at least ${stats.minRepeatPairs})`);
+  if (stats.fullRotation) lines.push("Full rotation: every couple plays every other couple exactly once");
+  if (stats.repeatOpponents !== null) lines.push(`Repeat opponents: ${stats.repeatOpponents}`);
+  lines.push(`Seed: ${args.seed}${iterations ? ` (optimizer: ${iterations} iterations)` : ""}`);
+  return lines.join("\n");
+}
+
+function main(): void {
+  try {
+    const input = readInput(process.argv.slice(2));
+    if (!input) {
+      console.log(USAGE);
+      return;
+    }
+
+    const { args, rounds, iterations } = buildSchedule(input);
+    if (input.format === "json") {
+      console.log(JSON.stringify({ seed: args.seed, iterations, rounds }, null, 2));
+    } else {
+      console.log(formatTable(input, args, rounds, iterations));
+    }
+  } catch (err) {
+    // parseArgs throws TypeErrors for unknown flags; everything else is ours
+    console.error(err instanceof CliError || err instanceof TypeError ? err.message : err);
+    console.error("Run with --help for usage.");
+    process.exitCode = 1;
+  }
+}
+
+main();
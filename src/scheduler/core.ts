@@ -0,0 +1,246 @@
+/**
+ * Shared scheduling core: session shapes and the repeat/balance scoring used by both
+ * the greedy generator (generate.ts) and the session optimizer (runs in a Web Worker).
+ * Keep this file free of React/DOM imports so the worker bundle stays small.
+ */
+
+// ladder: individuals like roundRobin, but each game is planned from the previous game's results
+export type Mode = "couples" | "roundRobin" | "ladder";
+
+export type CourtAssignment = {
+  courtNumber: number;
+  group: number[]; // couples: [a,b]; roundRobin/ladder: [a,b,c,d] where (a,b) and (c,d) are partners for that game; singles: [a,b]; cutthroat: [a,b,c]
+};
+
+export type Round = {
+  gameNumber: number;
+  courts: CourtAssignment[];
+  byes: number[];
+};
+
+export type CourtScore = {
+  teamA?: number; // couples: group[0]; roundRobin: group[0] + group[1]
+  teamB?: number; // couples: group[1]; roundRobin: group[2] + group[3]
+};
+
+// gameNumber -> courtNumber -> score
+export type SessionScores = Record<number, Record<number, CourtScore>>;
+
+export type RatingBalance = {
+  ratingOf: (id: number) => number;
+  weight: number; // 0 = ignore ratings, 10 = balance matters most
+};
+
+// Hard rules from the setup screen; players are participant numbers (couples: couple numbers)
+export type HardConstraint =
+  | { kind: "pinPartners"; players: [number, number] } // always partners when both play (they sit out together)
+  | { kind: "notPartners"; players: [number, number] }
+  | { kind: "notOpponents"; players: [number, number] } // never on opposite sides of a court
+  | { kind: "onlyGames"; player: number; games: number[] }
+  | { kind: "onlyCourts"; player: number; courts: number[] };
+
+// Hard rules compiled for fast checks while searching
+export type RuleIndex = {
+  pinnedTo: Map<number, number>;
+  notPartners: Set<string>;
+  notOpponents: Set<string>;
+  courtsFor: Map<number, Set<number>>;
+};
+
+// Score added per earlier time a pair was together; the generator and optimizer both use these
+export const PARTNER_REPEAT_PENALTY = 10; // couples: repeat matchup; roundRobin: repeat partners
+export const OPPONENT_REPEAT_PENALTY = 2; // multiplied by the opponent weight (0-10)
+
+/* ---------------- Seeded randomness ---------------- */
+
+// mulberry32: tiny, fast, and good enough for shuffling; same seed -> same sequence everywhere
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967295) + 1;
+}
+
+export function shuffle<T>(array: T[], random: () => number): T[] {
+  const a = [...array];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/* ---------------- Keys ---------------- */
+
+export function pairKey(a: number, b: number): string {
+  const x = Math.min(a, b);
+  const y = Math.max(a, b);
+  return `${x}-${y}`;
+}
+
+export function courtSides(group: number[]): [number[], number[]] {
+  // Two entries (couples, or a singles court) face each other; four are (0,1) vs (2,3);
+  // cutthroat starts with group[0] alone against the other two
+  if (group.length === 3) return [[group[0]], [group[1], group[2]]];
+  return group.length === 4 ? [group.slice(0, 2), group.slice(2, 4)] : [[group[0]], [group[1]]];
+}
+
+export function isShortHanded(group: number[], mode: Mode): boolean {
+  // Singles or cutthroat on a Round Robin court (couples courts always hold two couples)
+  return mode !== "couples" && group.length < 4;
+}
+
+export function partnerKeysRR(group: number[]): string[] {
+  // Singles and cutthroat have no partners
+  return group.length === 4 ? [pairKey(group[0], group[1]), pairKey(group[2], group[3])] : [];
+}
+
+export function opponentKeysRR(group: number[]): string[] {
+  // Cutthroat rotates who plays alone, so all three face each other
+  if (group.length === 3) return [pairKey(group[0], group[1]), pairKey(group[0], group[2]), pairKey(group[1], group[2])];
+  // Everyone on one side faces everyone on the other
+  const [sideA, sideB] = courtSides(group);
+  return sideA.flatMap((a) => sideB.map((b) => pairKey(a, b)));
+}
+
+export function courtKey(player: number, courtNumber: number): string {
+  return `${player}@${courtNumber}`;
+}
+
+export function isCompleteScore(score: CourtScore | undefined): score is Required<CourtScore> {
+  return typeof score?.teamA === "number" && typeof score?.teamB === "number";
+}
+
+/* ---------------- Hard rules ---------------- */
+
+export function indexConstraints(constraints: HardConstraint[]): RuleIndex {
+  const rules: RuleIndex = { pinnedTo: new Map(), notPartners: new Set(), notOpponents: new Set(), courtsFor: new Map() };
+  for (const c of constraints) {
+    if (c.kind === "pinPartners") {
+      rules.pinnedTo.set(c.players[0], c.players[1]);
+      rules.pinnedTo.set(c.players[1], c.players[0]);
+    } else if (c.kind === "notPartners") {
+      rules.notPartners.add(pairKey(...c.players));
+    } else if (c.kind === "notOpponents") {
+      rules.notOpponents.add(pairKey(...c.players));
+    } else if (c.kind === "onlyCourts") {
+      rules.courtsFor.set(c.player, new Set(c.courts));
+    }
+  }
+  return rules;
+}
+
+export function hasTeamRules(rules: RuleIndex): boolean {
+  return rules.pinnedTo.size > 0 || rules.notPartners.size > 0 || rules.notOpponents.size > 0;
+}
+
+export function teamsFollowRules(group: number[], rules: RuleIndex, mode: Mode): boolean {
+  // Couples: each entry is a whole side, so only "never face each other" applies
+  if (mode === "couples") return !rules.notOpponents.has(pairKey(group[0], group[1]));
+
+  const [sideA] = courtSides(group);
+  for (const p of group) {
+    const pinned = rules.pinnedTo.get(p);
+    if (pinned === undefined || !group.includes(pinned)) continue;
+    // Pinned partners only ever share a doubles team
+    if (group.length !== 4 || sideA.includes(pinned) !== sideA.includes(p)) return false;
+  }
+  if (partnerKeysRR(group).some((k) => rules.notPartners.has(k))) return false;
+  return !opponentKeysRR(group).some((k) => rules.notOpponents.has(k));
+}
+
+export function courtFollowsRules(group: number[], courtNumber: number, rules: RuleIndex): boolean {
+  return group.every((p) => rules.courtsFor.get(p)?.has(courtNumber) ?? true);
+}
+
+/* ---------------- Rating balance ---------------- */
+
+export function ratingBalanceFor(ratings: (number | undefined)[], weight: number): RatingBalance | null {
+  const known = ratings.filter((r): r is number => typeof r === "number" && Number.isFinite(r));
+  if (!known.length || weight <= 0) return null;
+
+  // Unrated players count as the session average so they don't skew the balance
+  const average = known.reduce((sum, r) => sum + r, 0) / known.length;
+  return {
+    ratingOf: (id) => {
+      const r = ratings[id - 1];
+      return typeof r === "number" && Number.isFinite(r) ? r : average;
+    },
+    weight,
+  };
+}
+
+/* ---------------- Round Robin helpers (partners, opponents, courts, rating balance) ---------------- */
+
+export function partnerScoreRR(group: number[], partnerCounts: Map<string, number>): number {
+  // Fixed teams: (0,1) and (2,3) are partners for that game
+  return partnerKeysRR(group).reduce((sum, k) => sum + (partnerCounts.get(k) ?? 0), 0) * PARTNER_REPEAT_PENALTY;
+}
+
+export function opponentScoreRR(group: number[], opponentCounts: Map<string, number>, weight: number): number {
+  if (weight <= 0) return 0;
+  return opponentKeysRR(group).reduce((sum, k) => sum + (opponentCounts.get(k) ?? 0), 0) * weight * OPPONENT_REPEAT_PENALTY;
+}
+
+export function courtScore(group: number[], courtNumber: number, courtCounts: Map<string, number>, weight: number): number {
+  if (weight <= 0) return 0;
+  return group.reduce((sum, p) => sum + (courtCounts.get(courtKey(p, courtNumber)) ?? 0), 0) * weight;
+}
+
+export function teamRatingGap(group: number[], ratingOf: (id: number) => number): number {
+  if (group.length === 3) return 0; // cutthroat teams change every rotation; the level spread still counts
+  const [teamA, teamB] = courtSides(group).map((side) => side.reduce((sum, p) => sum + ratingOf(p), 0));
+  return Math.abs(teamA - teamB);
+}
+
+export function balanceScoreRR(group: number[], balance: RatingBalance | null): number {
+  if (!balance) return 0;
+  // Team gap keeps the game competitive; court spread keeps similar levels together
+  const levels = group.map(balance.ratingOf);
+  const spread = Math.max(...levels) - Math.min(...levels);
+  return balance.weight * (teamRatingGap(group, balance.ratingOf) * 4 + spread * 2);
+}
+
+export function isMixedGroup(group: number[], categoryOf: (id: number) => string): boolean {
+  // Mixed doubles: each team (0,1) and (2,3) has one player from each category
+  return categoryOf(group[0]) !== categoryOf(group[1]) && categoryOf(group[2]) !== categoryOf(group[3]);
+}
+
+export function bestOrderForRoundRobinGroup(
+  group: number[],
+  scoreOrder: (ordered: number[]) => number,
+  allowed: (ordered: number[]) => boolean = () => true
+): number[] {
+  // Reorder 4 players to minimize the RR score (repeat partners/opponents, rating gap) while keeping fixed-team rule.
+  if (group.length !== 4) return group; // singles: only one way to play
+  const [p1, p2, p3, p4] = group;
+
+  const all: number[][] = [
+    [p1, p2, p3, p4], // (p1,p2) (p3,p4)
+    [p1, p3, p2, p4], // (p1,p3) (p2,p4)
+    [p1, p4, p2, p3], // (p1,p4) (p2,p3)
+  ];
+  const permitted = all.filter(allowed);
+  const candidates = permitted.length ? permitted : all;
+
+  let best = candidates[0];
+  let bestScore = scoreOrder(best);
+
+  for (let i = 1; i < candidates.length; i++) {
+    const s = scoreOrder(candidates[i]);
+    if (s < bestScore) {
+      bestScore = s;
+      best = candidates[i];
+    }
+  }
+
+  return best;
+}
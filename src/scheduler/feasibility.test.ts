@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSession } from "./analyze";
+import { checkFeasibility } from "./feasibility";
+import { generateSchedule } from "./generate";
+
+describe("checkFeasibility", () => {
+  it("spots an idle court and suggests game counts where byes come out even", () => {
+    const result = checkFeasibility({ mode: "roundRobin", participantCount: 18, courtNumbers: [1, 2, 3, 4, 5], games: 8 });
+
+    expect(result).toMatchObject({ courtsUsed: 4, idleCourts: 1, byesPerGame: 2, byeSpread: { min: 0, max: 1 } });
+    expect(result.suggestions).toContain("Use 4 courts: 18 players fill only 4 of the 5.");
+    expect(result.suggestions).toContain("Turn on spare courts: the 2 left over would play singles instead of sitting out.");
+    expect(result.suggestions).toContain("9 games gives everyone exactly 1 bye.");
+  });
+
+  it("seats players the way generateSchedule does", () => {
+    const args = { mode: "roundRobin" as const, participantCount: 11, courtNumbers: [1, 2, 3], singlesCourts: [3], games: 4 };
+    const result = checkFeasibility(args);
+    const { rounds } = generateSchedule({ ...args, seed: 5 });
+
+    expect(result).toMatchObject({ courtsUsed: 3, byesPerGame: 1, shortHandedPerGame: 2 });
+    for (const round of rounds) {
+      expect(round.courts).toHaveLength(result.courtsUsed);
+      expect(round.byes).toHaveLength(result.byesPerGame);
+    }
+  });
+
+  it("finds repeat opponents no schedule can avoid", () => {
+    // 12 players each face 12 opponents over 6 games, but there are only 11 others
+    const result = checkFeasibility({ mode: "roundRobin", participantCount: 12, courtNumbers: [1, 2, 3], games: 6 });
+
+    expect(result.minRepeatPairs).toBe(0);
+    expect(result.minRepeatOpponents).toBe(6);
+    expect(result.suggestions).toContain("6 games make at least 6 repeat opponents unavoidable; up to 5 games can avoid them.");
+  });
+
+  it("never promises fewer repeats than a generated schedule has", () => {
+    const args = { mode: "couples" as const, participantCount: 8, courtNumbers: [1, 2, 3, 4], games: 9 };
+    const result = checkFeasibility(args);
+    const { rounds } = generateSchedule({ ...args, seed: 3 });
+
+    expect(result.minRepeatPairs).toBe(8);
+    expect(result.minRepeatOpponents).toBeNull();
+    expect(analyzeSession(rounds, "couples").repeatPairs).toBeGreaterThanOrEqual(result.minRepeatPairs);
+    expect(result.suggestions).toContain("9 games make at least 8 repeat matchups unavoidable; up to 7 games can avoid them.");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Feasibility advisor: what a setup allows before anything is generated (shown live on the setup screen).
+ * - Courts used and byes per game, seated by the same rules as generateSchedule (doubles first, then singles/spare courts)
+ * - Bye spread: byes are shared out evenly, so everyone sits out the total divided by the head count, rounded down or up
+ * - Repeat floors: repeats no schedule can avoid (more pairings than distinct pairs, or more games than people to meet)
+ * - Suggestions: fewer or more courts, game counts where byes come out even, the most games without forced repeats
+ * Assumes everyone plays the whole session on the base courts; court changes, arrivals and rules aren't counted.
+ */
+
+import type { Mode } from "./core";
+import { courtsToFill, type ScheduleArgs } from "./generate";
+
+export type FeasibilityInput = Pick<ScheduleArgs, "mode" | "participantCount" | "courtNumbers" | "games" | "singlesCourts" | "spareCourts">;
+
+export type Feasibility = {
+  courtsUsed: number;
+  idleCourts: number;
+  byesPerGame: number; // couples: couples sitting out
+  byeSpread: { min: number; max: number }; // byes per person over the session
+  shortHandedPerGame: number; // RR: players on singles/cutthroat courts each game
+  minRepeatPairs: number; // couples: repeat matchups; roundRobin/ladder: repeat partners
+  minRepeatOpponents: number | null; // null for couples
+  suggestions: string[];
+};
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function gcd(a: number, b: number): number {
+  return b ? gcd(b, a % b) : a;
+}
+
+function repeatFloor(ends: number, people: number): number {
+  // ends: pairing ends handed out over the session (two per pairing), at best shared out as evenly as possible
+  if (people < 2) return 0;
+  const distinct = (people * (people - 1)) / 2;
+  const base = Math.floor(ends / people);
+  const extra = ends % people;
+  const overflow = extra * Math.max(0, base + 1 - (people - 1)) + (people - extra) * Math.max(0, base - (people - 1));
+  return Math.max(0, ends / 2 - distinct, Math.ceil(overflow / 2));
+}
+
+function pairingEnds(sizes: number[], mode: Mode): { partners: number; opponents: number } {
+  // Per game: couples meet one couple; doubles give one partner and two opponents each;
+  // singles one opponent; cutthroat two (all three face each other)
+  if (mode === "couples") return { partners: sizes.length * 2, opponents: 0 };
+  const partners = sizes.filter((n) => n === 4).length * 4;
+  const opponents = sizes.reduce((sum, n) => sum + (n === 4 ? 8 : n === 3 ? 6 : 2), 0);
+  return { partners, opponents };
+}
+
+export function checkFeasibility(input: FeasibilityInput): Feasibility {
+  const { mode, participantCount: n, courtNumbers, games } = input;
+  const singles = new Set(mode === "roundRobin" ? input.singlesCourts ?? [] : []);
+  const spareCourts = mode === "roundRobin" && !!input.spareCourts;
+  const unit = mode === "couples" ? "couple" : "player";
+  const unitsPerCourt = mode === "couples" ? 2 : 4;
+
+  const plan = courtsToFill(courtNumbers, n, mode, singles, spareCourts);
+  const sizes = plan.map((c) => c.size);
+  const seats = sizes.reduce((sum, s) => sum + s, 0);
+  const byesPerGame = n - seats;
+  const idleCourts = courtNumbers.length - plan.length;
+  const totalByes = byesPerGame * games;
+  const ends = pairingEnds(sizes, mode);
+  const floorsAt = (g: number) => ({ partners: repeatFloor(ends.partners * g, n), opponents: repeatFloor(ends.opponents * g, n) });
+  const floors = floorsAt(games);
+
+  const suggestions: string[] = [];
+
+  if (!plan.length) {
+    suggestions.push(`Each court needs ${plural(unitsPerCourt, unit)}; ${plural(n, unit)} can't fill one.`);
+  } else if (idleCourts) {
+    suggestions.push(`Use ${plural(plan.length, "court")}: ${plural(n, unit)} fill only ${plan.length} of the ${courtNumbers.length}.`);
+  } else if (byesPerGame >= unitsPerCourt) {
+    const more = Math.floor(byesPerGame / unitsPerCourt);
+    suggestions.push(
+      `${plural(more, "more court")} would seat ${more * unitsPerCourt} more ${unit}s a game (${byesPerGame - more * unitsPerCourt} byes instead of ${byesPerGame}).`
+    );
+  }
+
+  if (mode === "roundRobin" && !spareCourts) {
+    const withSpare = courtsToFill(courtNumbers, n, mode, singles, true);
+    const extra = withSpare.reduce((sum, c) => sum + c.size, 0) - seats;
+    if (extra) {
+      suggestions.push(
+        `Turn on spare courts: the ${extra} left over would play ${extra === 2 ? "singles" : "cutthroat"} instead of sitting out.`
+      );
+    }
+  }
+
+  if (byesPerGame > 0 && n > 0 && totalByes % n) {
+    // Byes come out even every n / gcd(n, byes) games
+    const period = n / gcd(n, byesPerGame);
+    const below = Math.floor(games / period) * period;
+    for (const g of [below, below + period]) {
+      if (g > 0) suggestions.push(`${plural(g, "game")} gives everyone exactly ${plural((g * byesPerGame) / n, "bye")}.`);
+    }
+  }
+
+  for (const [kind, label] of [
+    ["partners", mode === "couples" ? "repeat matchups" : "repeat partners"],
+    ["opponents", "repeat opponents"],
+  ] as const) {
+    if (!floors[kind]) continue;
+    let most = games - 1;
+    while (most > 0 && floorsAt(most)[kind]) most--;
+    suggestions.push(
+      `${games} games make at least ${floors[kind]} ${label} unavoidable; ${most ? `up to ${plural(most, "game")} can avoid them` : "no game count avoids them"}.`
+    );
+  }
+
+  return {
+    courtsUsed: plan.length,
+    idleCourts,
+    byesPerGame,
+    byeSpread: n > 0 ? { min: Math.floor(totalByes / n), max: Math.ceil(totalByes / n) } : { min: 0, max: 0 },
+    shortHandedPerGame: mode === "couples" ? 0 : sizes.filter((s) => s < 4).reduce((sum, s) => sum + s, 0),
+    minRepeatPairs: floors.partners,
+    minRepeatOpponents: mode === "couples" ? null : floors.opponents,
+    suggestions,
+  };
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSession } from "./analyze";
+import type { Round } from "./core";
+import { generateSchedule, type ScheduleArgs } from "./generate";
+
+function byeCounts(rounds: Round[], participantCount: number): number[] {
+  const counts = new Array(participantCount).fill(0);
+  for (const round of rounds) for (const p of round.byes) counts[p - 1] += 1;
+  return counts;
+}
+
+function spread(values: number[]): number {
+  return Math.max(...values) - Math.min(...values);
+}
+
+// Every game seats each present participant exactly once (on a court or on a bye)
+function expectEveryoneOnce(rounds: Round[], present: (game: number) => number[]): void {
+  for (const round of rounds) {
+    const seated = [...round.courts.flatMap((c) => c.group), ...round.byes].sort((a, b) => a - b);
+    expect(seated).toEqual(present(round.gameNumber));
+  }
+}
+
+const everyone = (n: number) => () => Array.from({ length: n }, (_, i) => i + 1);
+
+describe("generateSchedule: byes", () => {
+  it.each([
+    { mode: "roundRobin", participantCount: 10, courts: 2, games: 8 },
+    { mode: "roundRobin", participantCount: 13, courts: 3, games: 9 },
+    { mode: "couples", participantCount: 7, courts: 3, games: 7 },
+    { mode: "couples", participantCount: 9, courts: 2, games: 6 },
+  ] as const)("spreads byes evenly: $mode, $participantCount on $courts courts", ({ courts, ...rest }) => {
+    for (const seed of [1, 2, 3]) {
+      const args: ScheduleArgs = { ...rest, courtNumbers: Array.from({ length: courts }, (_, i) => i + 1), seed };
+      const { rounds, error } = generateSchedule(args);
+
+      expect(error).toBe("");
+      expect(rounds).toHaveLength(args.games);
+      expectEveryoneOnce(rounds, everyone(args.participantCount));
+      expect(spread(byeCounts(rounds, args.participantCount))).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("gives no byes when everyone fits", () => {
+    const { rounds } = generateSchedule({ mode: "roundRobin", participantCount: 8, courtNumbers: [1, 2], games: 5, seed: 4 });
+    expect(rounds.every((r) => r.byes.length === 0)).toBe(true);
+  });
+
+  it("leaves late arrivals out until they arrive, then starts them level", () => {
+    const { rounds } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 9,
+      courtNumbers: [1, 2],
+      games: 8,
+      availability: [{ arriveGame: 4 }],
+      seed: 5,
+    });
+
+    expectEveryoneOnce(rounds, (game) => everyone(9)().filter((p) => p !== 1 || game >= 4));
+    expect(spread(byeCounts(rounds.slice(3), 9))).toBeLessThanOrEqual(1);
+  });
+
+  it("keeps pinned partners together on byes", () => {
+    const { rounds, error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 10,
+      courtNumbers: [1, 2],
+      games: 6,
+      constraints: [{ kind: "pinPartners", players: [1, 2] }],
+      seed: 6,
+    });
+
+    expect(error).toBe("");
+    for (const round of rounds) expect(round.byes.includes(1)).toBe(round.byes.includes(2));
+  });
+});
+
+describe("generateSchedule: court mapping", () => {
+  it("uses the entered court numbers in order", () => {
+    const { rounds } = generateSchedule({ mode: "roundRobin", participantCount: 12, courtNumbers: [2, 5, 7], games: 4, seed: 1 });
+    for (const round of rounds) expect(round.courts.map((c) => c.courtNumber)).toEqual([2, 5, 7]);
+  });
+
+  it("fills the first courts when there aren't enough players for all of them", () => {
+    const { rounds } = generateSchedule({ mode: "roundRobin", participantCount: 9, courtNumbers: [4, 9, 12], games: 4, seed: 1 });
+    for (const round of rounds) {
+      expect(round.courts.map((c) => c.courtNumber)).toEqual([4, 9]);
+      expect(round.byes).toHaveLength(1);
+    }
+  });
+
+  it("seats two couples or four players per court", () => {
+    const couples = generateSchedule({ mode: "couples", participantCount: 6, courtNumbers: [1, 2, 3], games: 3, seed: 2 });
+    const players = generateSchedule({ mode: "roundRobin", participantCount: 8, courtNumbers: [1, 2], games: 3, seed: 2 });
+    expect(couples.rounds.flatMap((r) => r.courts).every((c) => c.group.length === 2)).toBe(true);
+    expect(players.rounds.flatMap((r) => r.courts).every((c) => c.group.length === 4)).toBe(true);
+  });
+
+  it("keeps court-limited players on their courts", () => {
+    const { rounds, error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 12,
+      courtNumbers: [1, 2, 3],
+      games: 5,
+      constraints: [{ kind: "onlyCourts", player: 3, courts: [3] }],
+      seed: 8,
+    });
+
+    expect(error).toBe("");
+    for (const round of rounds) expect(round.courts.find((c) => c.group.includes(3))?.courtNumber).toBe(3);
+  });
+
+  it("switches court lists from the game a court change starts", () => {
+    const { rounds, error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 12,
+      courtNumbers: [1, 2, 3],
+      courtChanges: [{ fromGame: 4, courts: [1, 2] }],
+      games: 6,
+      seed: 3,
+    });
+
+    expect(error).toBe("");
+    expectEveryoneOnce(rounds, everyone(12));
+    for (const round of rounds) {
+      expect(round.courts.map((c) => c.courtNumber)).toEqual(round.gameNumber < 4 ? [1, 2, 3] : [1, 2]);
+    }
+    expect(spread(byeCounts(rounds, 12))).toBeLessThanOrEqual(1);
+  });
+
+  it("seats left-over players on singles courts", () => {
+    const { rounds, error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 10,
+      courtNumbers: [1, 2, 3],
+      singlesCourts: [3],
+      games: 5,
+      seed: 6,
+    });
+
+    expect(error).toBe("");
+    for (const round of rounds) {
+      expect(round.courts.map((c) => [c.courtNumber, c.group.length])).toEqual([[1, 4], [2, 4], [3, 2]]);
+      expect(round.byes).toHaveLength(0);
+    }
+  });
+
+  it.each([
+    { participantCount: 10, size: 2 },
+    { participantCount: 11, size: 3 },
+  ])("plays $size leftovers on a spare court and shares those games out", ({ participantCount, size }) => {
+    const { rounds, error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount,
+      courtNumbers: [1, 2, 3],
+      spareCourts: true,
+      games: 9,
+      seed: 2,
+    });
+
+    expect(error).toBe("");
+    expectEveryoneOnce(rounds, everyone(participantCount));
+    const shortHanded = new Array(participantCount).fill(0);
+    for (const round of rounds) {
+      expect(round.courts.map((c) => c.group.length)).toEqual([4, 4, size]);
+      for (const p of round.courts[2].group) shortHanded[p - 1] += 1;
+    }
+    expect(spread(shortHanded)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("generateSchedule: couples rotation", () => {
+  it.each([
+    { participantCount: 8, courts: 4, games: 7 },
+    { participantCount: 7, courts: 3, games: 7 },
+    { participantCount: 12, courts: 6, games: 11 },
+  ])("$participantCount couples meet each other exactly once in $games games", ({ participantCount, courts, games }) => {
+    for (const seed of [1, 2, 3]) {
+      const { rounds, error } = generateSchedule({
+        mode: "couples",
+        participantCount,
+        courtNumbers: Array.from({ length: courts }, (_, i) => i + 1),
+        games,
+        seed,
+      });
+
+      expect(error).toBe("");
+      expectEveryoneOnce(rounds, everyone(participantCount));
+      const stats = analyzeSession(rounds, "couples");
+      expect(stats.repeatPairs).toBe(0);
+      expect(stats.fullRotation).toBe(true);
+      expect(stats.maxByes).toBe(participantCount % 2);
+      expect(stats.minByes).toBe(participantCount % 2);
+    }
+  });
+
+  it("falls back to the search for a partial session", () => {
+    const { rounds, error } = generateSchedule({ mode: "couples", participantCount: 8, courtNumbers: [1, 2, 3, 4], games: 5, seed: 2 });
+    expect(error).toBe("");
+    expect(analyzeSession(rounds, "couples").fullRotation).toBe(false);
+  });
+});
+
+describe("generateSchedule: inputs", () => {
+  it("rebuilds the same schedule from the same seed", () => {
+    const args: ScheduleArgs = { mode: "roundRobin", participantCount: 11, courtNumbers: [1, 2], games: 6, seed: 42 };
+    expect(generateSchedule(args)).toEqual(generateSchedule(args));
+  });
+
+  it("reports missing inputs", () => {
+    const base: ScheduleArgs = { mode: "couples", participantCount: 4, courtNumbers: [1], games: 2, seed: 1 };
+    expect(generateSchedule({ ...base, participantCount: 0 }).error).toMatch(/number of couples/);
+    expect(generateSchedule({ ...base, courtNumbers: [] }).error).toMatch(/enter courts/);
+    expect(generateSchedule({ ...base, games: 0 }).error).toMatch(/number of games/);
+  });
+
+  it("plans around locked courts and byes", () => {
+    const args: ScheduleArgs = { mode: "roundRobin", participantCount: 10, courtNumbers: [1, 2], games: 6, seed: 3 };
+    const locked = [
+      { gameNumber: 3, courts: [{ courtNumber: 2, group: [1, 2, 3, 4] }], byes: [5] },
+      { gameNumber: 5, courts: [], byes: [1, 2] },
+    ];
+    const { rounds, error } = generateSchedule({ ...args, locked });
+
+    expect(error).toBe("");
+    expectEveryoneOnce(rounds, everyone(10));
+    expect(rounds[2].courts.find((c) => c.courtNumber === 2)?.group).toEqual([1, 2, 3, 4]);
+    expect(rounds[2].byes).toContain(5);
+    expect(rounds[4].byes).toEqual([1, 2]);
+    expect(spread(byeCounts(rounds, 10))).toBeLessThanOrEqual(1);
+  });
+
+  it("reports a lock on someone who isn't there", () => {
+    const { error } = generateSchedule({
+      mode: "roundRobin",
+      participantCount: 9,
+      courtNumbers: [1, 2],
+      games: 4,
+      availability: [{ leaveAfterGame: 2 }],
+      locked: [{ gameNumber: 3, courts: [{ courtNumber: 1, group: [1, 2, 3, 4] }], byes: [] }],
+      seed: 1,
+    });
+    expect(error).toMatch(/Game 3 locks player #1/);
+  });
+
+  it("keeps frozen history games as they are", () => {
+    const args: ScheduleArgs = { mode: "roundRobin", participantCount: 10, courtNumbers: [1, 2], games: 6, seed: 3 };
+    const first = generateSchedule(args).rounds;
+    const replanned = generateSchedule({ ...args, history: first.slice(0, 2), seed: 99 }).rounds;
+    expect(replanned.slice(0, 2)).toEqual(first.slice(0, 2));
+    expect(replanned).toHaveLength(6);
+  });
+});
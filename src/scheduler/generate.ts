@@ -0,0 +1,777 @@
+/**
+ * Session generation: balanced byes + minimized repeats, game by game (greedy draft).
+ * - Couples: minimize repeat matchups; with courts for everyone and enough games, a full rotation (circle method)
+ *   where every couple meets every other couple exactly once
+ * - Round Robin: fixed teams, minimize repeat partners
+ *   (+ weighted repeat opponents, repeat courts and rating balance)
+ * - Late arrivals / early departures, hard rules and mixed doubles are honored every game
+ * - Round Robin: singles courts and spare courts (2 left over: singles, 3: cutthroat) are shared out like byes
+ * - Ladder: only the next game is planned, from the previous game's results
+ * - Frozen history games are kept as-is and seed the bye/partner counts (replans)
+ * - League carry-over: earlier sessions' pairings start as weighted repeats, last session's byes break bye ties
+ * - Deterministic: same inputs + same seed -> same schedule
+ */
+
+import {
+  balanceScoreRR,
+  bestOrderForRoundRobinGroup,
+  courtFollowsRules,
+  courtKey,
+  courtScore,
+  createRng,
+  hasTeamRules,
+  indexConstraints,
+  isCompleteScore,
+  isMixedGroup,
+  isShortHanded,
+  opponentKeysRR,
+  opponentScoreRR,
+  pairKey,
+  partnerKeysRR,
+  partnerScoreRR,
+  PARTNER_REPEAT_PENALTY,
+  ratingBalanceFor,
+  shuffle,
+  teamsFollowRules,
+  type CourtAssignment,
+  type HardConstraint,
+  type Mode,
+  type Round,
+  type SessionScores,
+} from "./core";
+import { normalizeCategory } from "./input";
+import type { CarryOver } from "./league";
+
+export type Availability = {
+  arriveGame?: number; // first game they can play (late arrival)
+  leaveAfterGame?: number; // last game they can play (early departure)
+};
+
+export type LadderRule = "split" | "keepPartners";
+
+// From fromGame on (until a later change), play on these courts instead of courtNumbers
+export type CourtChange = {
+  fromGame: number;
+  courts: number[];
+};
+
+export type ScheduleArgs = {
+  mode: Mode;
+  participantCount: number;
+  pool?: number[]; // tournament pool play: only these participants play (rules naming none of them are skipped)
+  courtNumbers: number[];
+  courtChanges?: CourtChange[]; // per-game court availability (e.g., courts lost to lessons after game 4)
+  singlesCourts?: number[]; // RR: these courts seat 2 players (1 v 1) instead of 4
+  spareCourts?: boolean; // RR: 2 or 3 players left over play singles/cutthroat on a court the doubles don't need
+  games: number;
+  ratings?: (number | undefined)[]; // index 0 = participant #1
+  balanceWeight?: number;
+  opponentWeight?: number; // RR: 0 = ignore repeat opponents
+  courtWeight?: number; // RR: 0 = ignore repeat court numbers
+  availability?: Availability[]; // index 0 = participant #1
+  history?: Round[]; // games already played: kept as-is and seed bye/partner counts
+  locked?: Round[]; // later games' locked courts and byes (manual edits): kept as-is, the rest is planned around them
+  carryOver?: CarryOver; // league: earlier sessions' pairings and byes (see league.ts)
+  results?: SessionScores; // ladder: scores of the history games decide who moves up/down
+  ladderRule?: LadderRule;
+  categories?: (string | undefined)[]; // index 0 = participant #1
+  mixed?: boolean; // RR: every team has one player from each of the two categories
+  constraints?: HardConstraint[]; // hard rules on top of the soft repeat scoring
+  seed: number; // same inputs + same seed -> same schedule
+};
+
+/* ---------------- Helpers ---------------- */
+
+function jitteredLevelSort(ids: number[], ratingOf: (id: number) => number, random: () => number): number[] {
+  // Sort by rating with a little noise so neighbouring levels mix between attempts
+  return ids
+    .map((id) => ({ id, key: ratingOf(id) + (random() - 0.5) * 0.5 }))
+    .sort((a, b) => a.key - b.key)
+    .map((x) => x.id);
+}
+
+function chunk<T>(array: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < array.length; i += size) out.push(array.slice(i, i + size));
+  return out;
+}
+
+function splitBySizes<T>(array: T[], sizes: number[]): T[][] {
+  // Consecutive slices: [4, 4, 2] -> two doubles courts, then a singles court
+  const out: T[][] = [];
+  let start = 0;
+  for (const size of sizes) {
+    out.push(array.slice(start, start + size));
+    start += size;
+  }
+  return out;
+}
+
+export function courtsToFill(
+  available: number[],
+  count: number, // couples or players to seat
+  mode: Mode,
+  singles: ReadonlySet<number>,
+  spareCourts: boolean
+): { court: number; size: number }[] {
+  // Doubles courts first (in the order entered); singles courts take whoever is left
+  const unitsPerCourt = mode === "couples" ? 2 : 4;
+  const doubles = available.filter((c) => !singles.has(c)).slice(0, Math.floor(count / unitsPerCourt));
+  const left = count - doubles.length * unitsPerCourt;
+  const singlesUsed = available.filter((c) => singles.has(c)).slice(0, Math.floor(left / 2));
+  const courts = [...doubles.map((court) => ({ court, size: unitsPerCourt })), ...singlesUsed.map((court) => ({ court, size: 2 }))];
+
+  // Spare courts: 2 still left play singles, 3 play cutthroat (1 left over still sits out)
+  const rest = left - singlesUsed.length * 2;
+  const spare = available.find((c) => !singles.has(c) && !doubles.includes(c));
+  if (spareCourts && (rest === 2 || rest === 3) && spare !== undefined) courts.push({ court: spare, size: rest });
+  return courts;
+}
+
+function circleRounds(ids: number[]): { pairs: number[][]; byes: number[] }[] {
+  // Circle method: the first entry stays put and the rest turn one step a round, so over n - 1 rounds
+  // everyone meets everyone exactly once; an odd count adds an empty seat, whoever faces it sits out
+  const seats: (number | null)[] = ids.length % 2 ? [...ids, null] : ids.slice();
+  const n = seats.length;
+  const rounds: { pairs: number[][]; byes: number[] }[] = [];
+
+  for (let r = 0; r < n - 1; r++) {
+    const pairs: number[][] = [];
+    const byes: number[] = [];
+    for (let i = 0; i < n / 2; i++) {
+      const [a, b] = [seats[i], seats[n - 1 - i]];
+      if (a === null || b === null) byes.push((a ?? b) as number);
+      else pairs.push([a, b]);
+    }
+    rounds.push({ pairs, byes });
+    seats.splice(1, 0, seats.pop() as number | null);
+  }
+  return rounds;
+}
+
+/* ---------------- Generation ---------------- */
+
+export function describeConstraint(c: HardConstraint, label: (id: number) => string): string {
+  switch (c.kind) {
+    case "pinPartners":
+      return `${label(c.players[0])} and ${label(c.players[1])} always partner`;
+    case "notPartners":
+      return `${label(c.players[0])} and ${label(c.players[1])} never partner`;
+    case "notOpponents":
+      return `${label(c.players[0])} and ${label(c.players[1])} never face each other`;
+    case "onlyGames":
+      return `${label(c.player)} only plays game${c.games.length === 1 ? "" : "s"} ${c.games.join(", ") || "(none)"}`;
+    case "onlyCourts":
+      return `${label(c.player)} only plays on court${c.courts.length === 1 ? "" : "s"} ${c.courts.join(", ")}`;
+  }
+}
+
+const numberLabel = (id: number) => `#${id}`;
+
+export function generateSchedule(args: ScheduleArgs): { rounds: Round[]; error: string } {
+  const result = planSchedule(args);
+  if (!result.stuckGame) return { rounds: result.rounds, error: result.error };
+
+  // Retry the stuck game without one rule at a time; the first rule whose removal lets it through is the culprit
+  const game = result.stuckGame;
+  const constraints = args.constraints ?? [];
+  const passesWithout = (changes: Partial<ScheduleArgs>) => !planSchedule({ ...args, ...changes, games: game }).error;
+
+  for (let i = 0; i < constraints.length; i++) {
+    if (passesWithout({ constraints: constraints.filter((_, j) => j !== i) })) {
+      const rule = describeConstraint(constraints[i], numberLabel);
+      return { rounds: result.rounds, error: `Game ${game}: rule ${i + 1} (${rule}) can't be met together with the other rules on these courts.` };
+    }
+  }
+  if (args.mixed && passesWithout({ mixed: false })) {
+    return { rounds: result.rounds, error: `Game ${game}: mixed doubles can't be met together with the rules on these courts.` };
+  }
+  return { rounds: result.rounds, error: `Game ${game}: ${result.error} No single rule is to blame; try removing some.` };
+}
+
+function constraintError(args: ScheduleArgs, categoryOf: (id: number) => string): string {
+  const { mode, participantCount } = args;
+  const courtNumbers = [args.courtNumbers, ...(args.courtChanges ?? []).map((c) => c.courts)].flat();
+  const constraints = args.constraints ?? [];
+  const unit = mode === "couples" ? "couple" : "player";
+  const pinRule = new Map<number, number>(); // player -> index of the rule pinning them
+  const pinned = new Map<string, number>();
+  const pool = args.pool ? new Set(args.pool) : null;
+
+  for (let i = 0; i < constraints.length; i++) {
+    const c = constraints[i];
+    const rule = `Rule ${i + 1} (${describeConstraint(c, numberLabel)})`;
+    const people = "players" in c ? c.players : [c.player];
+
+    if (people.some((p) => p < 1 || p > participantCount)) {
+      return `${rule} names a ${unit} who isn't in this session (1–${participantCount}).`;
+    }
+    if (pool && !people.some((p) => pool.has(p))) continue;
+    if (people.length === 2 && people[0] === people[1]) return `${rule} names the same ${unit} twice.`;
+    if (mode === "ladder" && c.kind !== "onlyGames") return `${rule} doesn't apply to ladder games (only game limits do).`;
+    if (mode === "couples" && (c.kind === "pinPartners" || c.kind === "notPartners")) {
+      return `${rule} only applies to Round Robin.`;
+    }
+    if (c.kind === "onlyCourts" && !c.courts.some((court) => courtNumbers.includes(court))) {
+      return `${rule} can't be met: none of those courts are in this session.`;
+    }
+    if (c.kind === "pinPartners") {
+      for (const p of c.players) {
+        const earlier = pinRule.get(p);
+        if (earlier !== undefined) return `${rule} pins #${p}, who is already pinned by rule ${earlier + 1}.`;
+        pinRule.set(p, i);
+      }
+      if (args.mixed && categoryOf(c.players[0]) === categoryOf(c.players[1])) {
+        return `${rule} pairs two ${categoryOf(c.players[0])} players, but mixed doubles needs one of each per team.`;
+      }
+      pinned.set(pairKey(...c.players), i);
+    }
+  }
+
+  for (let i = 0; i < constraints.length; i++) {
+    const c = constraints[i];
+    const earlier = c.kind === "notPartners" ? pinned.get(pairKey(...c.players)) : undefined;
+    if (earlier !== undefined) return `Rule ${i + 1} (${describeConstraint(c, numberLabel)}) contradicts rule ${earlier + 1}.`;
+  }
+  return "";
+}
+
+function planSchedule(args: ScheduleArgs): { rounds: Round[]; error: string; stuckGame?: number } {
+  const { mode, participantCount, courtNumbers, games } = args;
+  const random = createRng(args.seed);
+  const history = args.history ?? [];
+
+  const balance = mode === "roundRobin" ? ratingBalanceFor(args.ratings ?? [], args.balanceWeight ?? 0) : null;
+  const opponentWeight = mode === "roundRobin" ? args.opponentWeight ?? 0 : 0;
+  const courtWeight = mode === "roundRobin" ? args.courtWeight ?? 0 : 0;
+
+  const unitsPerCourt = mode === "couples" ? 2 : 4;
+  const singles = new Set(args.singlesCourts ?? []);
+  const courtChanges = [...(args.courtChanges ?? [])].sort((a, b) => a.fromGame - b.fromGame);
+
+  if (participantCount <= 0) return { rounds: [], error: "Please enter the number of couples/players." };
+  if (!courtNumbers.length) return { rounds: [], error: 'Please enter courts (example: "8" or "1-3,5,6").' };
+  if (games <= 0) return { rounds: [], error: "Please enter the number of games." };
+  for (const change of courtChanges) {
+    if (!change.courts.length) return { rounds: [], error: `The court change from game ${change.fromGame} has no courts.` };
+  }
+  if (singles.size && mode !== "roundRobin") return { rounds: [], error: "Singles courts only apply to Round Robin." };
+  if (args.spareCourts && mode !== "roundRobin") {
+    return { rounds: [], error: "Singles/cutthroat on spare courts only applies to Round Robin." };
+  }
+
+  if (history.length >= games) return { rounds: [], error: "There are no games left to plan after the frozen games." };
+
+  // Ladder: only the next game can be planned, since it depends on the last game's results
+  const lastGame = mode === "ladder" ? history.length + 1 : games;
+
+  const participants: number[] = args.pool ?? Array.from({ length: participantCount }, (_, i) => i + 1);
+
+  // Mixed doubles: exactly two categories, everyone tagged; each court takes two of each
+  const mixed = mode === "roundRobin" && !!args.mixed;
+  const categoryOf = (p: number) => normalizeCategory(args.categories?.[p - 1]);
+  const categoryNames = Array.from(new Set(participants.map(categoryOf).filter(Boolean))).sort();
+
+  if (mixed && singles.size) {
+    return { rounds: [], error: "Mixed doubles can't use singles courts; clear the singles courts or turn off mixed doubles." };
+  }
+  if (mixed && args.spareCourts) {
+    return { rounds: [], error: "Mixed doubles can't use spare courts for singles/cutthroat; turn one of them off." };
+  }
+
+  if (mixed) {
+    const untagged = participants.filter((p) => !categoryOf(p));
+    if (untagged.length) {
+      return {
+        rounds: [],
+        error: `Mixed doubles needs a category (e.g., F or M) for every player. Missing: ${untagged.map((p) => `#${p}`).join(", ")}.`,
+      };
+    }
+    if (categoryNames.length !== 2) {
+      return {
+        rounds: [],
+        error: `Mixed doubles needs exactly two categories; found ${categoryNames.length} (${categoryNames.join(", ")}).`,
+      };
+    }
+  }
+
+  const ruleError = constraintError({ ...args, mixed }, categoryOf);
+  if (ruleError) return { rounds: [], error: ruleError };
+
+  const constraints = args.constraints ?? [];
+  const rules = indexConstraints(constraints);
+  const checkTeams = hasTeamRules(rules);
+  const gamesFor = new Map<number, Set<number>>();
+  for (const c of constraints) if (c.kind === "onlyGames") gamesFor.set(c.player, new Set(c.games));
+
+  function isAvailable(p: number, game: number): boolean {
+    const a = args.availability?.[p - 1];
+    const here = (a?.arriveGame ?? 1) <= game && game <= (a?.leaveAfterGame ?? Number.POSITIVE_INFINITY);
+    return here && (gamesFor.get(p)?.has(game) ?? true);
+  }
+
+  // Balanced byes across session; singles/cutthroat games are shared out the same way
+  const byeCounts = new Array(participantCount + 1).fill(0);
+  const shortCounts = new Array(participantCount + 1).fill(0);
+
+  // Couples: track matchup repeats. RoundRobin: track PARTNER repeats (+ opponents and courts below).
+  const partnerCounts = new Map<string, number>();
+  const opponentCounts = new Map<string, number>();
+  const courtCounts = new Map<string, number>(); // "player@court" -> times played there
+  for (const [a, b, weight] of args.carryOver?.partners ?? []) partnerCounts.set(pairKey(a, b), weight);
+  for (const [a, b, weight] of args.carryOver?.opponents ?? []) opponentCounts.set(pairKey(a, b), weight);
+
+  const rounds: Round[] = history.map((r) => ({ ...r, courts: r.courts.map((c) => ({ ...c })), byes: r.byes.slice() }));
+
+  // Everyone who has been on site in an earlier game (used to catch late arrivals up on byes)
+  const seen = new Set<number>();
+
+  function bump(counts: Map<string, number>, key: string): void {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  function recordCourts(courts: CourtAssignment[]): void {
+    for (const { courtNumber, group: g } of courts) {
+      if (mode === "couples") {
+        bump(partnerCounts, pairKey(g[0], g[1]));
+      } else {
+        for (const k of partnerKeysRR(g)) bump(partnerCounts, k);
+        for (const k of opponentKeysRR(g)) bump(opponentCounts, k);
+        for (const p of g) bump(courtCounts, courtKey(p, courtNumber));
+      }
+    }
+  }
+
+  function recordRound(round: Round): void {
+    for (const b of round.byes) {
+      byeCounts[b] = (byeCounts[b] ?? 0) + 1;
+      seen.add(b);
+    }
+    recordCourts(round.courts);
+    for (const c of round.courts) for (const p of c.group) seen.add(p);
+    for (const c of round.courts) if (isShortHanded(c.group, mode)) for (const p of c.group) shortCounts[p] += 1;
+  }
+
+  for (const round of history) recordRound(round);
+
+  // Ladder games follow the results, so nothing in them can be locked
+  const lockedGames = new Map(mode === "ladder" ? [] : (args.locked ?? []).map((r) => [r.gameNumber, r]));
+
+  function couplesRotation(): { pairs: number[][]; byes: number[] }[] | null {
+    // Only a fresh session where everyone plays every game of the rotation and every game has a court per matchup;
+    // anything else (replans, locks, rules, people coming and going, too few games) uses the search below
+    if (mode !== "couples" || history.length || lockedGames.size || constraints.length) return null;
+    const n = participants.length;
+    const rotationGames = n % 2 ? n : n - 1;
+    if (n < 2 || games < rotationGames) return null;
+    for (let game = 1; game <= rotationGames; game++) {
+      if (courtsForGame(game).length < Math.floor(n / 2) || participants.some((p) => !isAvailable(p, game))) return null;
+    }
+    return circleRounds(shuffle(participants, random));
+  }
+  const rotation = couplesRotation();
+
+  function ladderOrder(present: number[], game: number): { order: number[]; error: string } {
+    // Top court first (courts in the order they were entered)
+    if (game === 1) {
+      const rated = present.map((p) => args.ratings?.[p - 1]).filter((r): r is number => typeof r === "number");
+      if (!rated.length) return { order: shuffle(present, random), error: "" };
+      const average = rated.reduce((a, b) => a + b, 0) / rated.length;
+      const ratingOf = (p: number) => args.ratings?.[p - 1] ?? average;
+      return { order: shuffle(present, random).sort((a, b) => ratingOf(b) - ratingOf(a)), error: "" };
+    }
+
+    const previous = rounds[rounds.length - 1];
+    const moves: { winners: number[]; losers: number[] }[] = [];
+    for (const c of previous.courts) {
+      const score = args.results?.[previous.gameNumber]?.[c.courtNumber];
+      if (!isCompleteScore(score)) {
+        return { order: [], error: `Enter the score for court ${c.courtNumber} in game ${previous.gameNumber} first.` };
+      }
+      if (score.teamA === score.teamB) {
+        return { order: [], error: `Game ${previous.gameNumber}, court ${c.courtNumber} is tied. Ladder games need a winner.` };
+      }
+      const teamA = c.group.slice(0, 2);
+      const teamB = c.group.slice(2, 4);
+      moves.push(score.teamA > score.teamB ? { winners: teamA, losers: teamB } : { winners: teamB, losers: teamA });
+    }
+
+    // Court k gets the losers from above and the winners from below; the top court keeps its winners, the bottom its losers
+    const order: number[] = [];
+    const last = moves.length - 1;
+    for (let k = 0; k <= last; k++) {
+      const upper = k === 0 ? moves[0].winners : moves[k - 1].losers;
+      const lower = k === last ? moves[last].losers : moves[k + 1].winners;
+      order.push(...upper, ...lower);
+    }
+
+    // Players back from a bye (or just arrived) rejoin at the court they last played on (new players at the bottom)
+    const lastCourt = new Map<number, number>();
+    for (const r of rounds) r.courts.forEach((c, rank) => c.group.forEach((p) => lastCourt.set(p, rank)));
+
+    const presentSet = new Set(present);
+    const ladder = order.filter((p) => presentSet.has(p));
+    const inLadder = new Set(ladder);
+    const returning = present
+      .filter((p) => !inLadder.has(p))
+      .sort((a, b) => (lastCourt.get(a) ?? Infinity) - (lastCourt.get(b) ?? Infinity));
+
+    returning.forEach((p, inserted) => {
+      const at = (lastCourt.get(p) ?? Infinity) * unitsPerCourt + inserted;
+      ladder.splice(Math.min(at, ladder.length), 0, p);
+    });
+
+    return { order: ladder, error: "" };
+  }
+
+  function ladderGroups(order: number[], remaining: number[], courtsToUse: number): number[][] {
+    const playing = new Set(remaining);
+    const groups = chunk(
+      order.filter((p) => playing.has(p)),
+      unitsPerCourt
+    ).slice(0, courtsToUse);
+
+    // Each group is [upper pair, lower pair]; splitting partners pairs one player from each
+    return args.ladderRule === "keepPartners" ? groups : groups.map((g) => [g[0], g[2], g[1], g[3]]);
+  }
+
+  function courtsForGame(game: number): number[] {
+    let courts = courtNumbers;
+    for (const change of courtChanges) if (change.fromGame <= game) courts = change.courts;
+    return courts;
+  }
+
+  function fitsCourt(size: number, court: number): boolean {
+    // Singles courts only seat singles; any other court can be the spare one
+    if (singles.has(court)) return size === 2;
+    return size === unitsPerCourt || (!!args.spareCourts && size < unitsPerCourt);
+  }
+
+  function byeUnits(pool: number[]): number[][] {
+    // Pinned partners who are both here sit out (and play) together
+    const here = new Set(pool);
+    const done = new Set<number>();
+    const units: number[][] = [];
+    for (const p of pool) {
+      if (done.has(p)) continue;
+      const partner = rules.pinnedTo.get(p);
+      const unit = partner !== undefined && here.has(partner) ? [p, partner] : [p];
+      for (const q of unit) done.add(q);
+      units.push(unit);
+    }
+    return units;
+  }
+
+  function chooseByesFairly(
+    pool: number[],
+    quotas: Map<string, number> // byes needed per category; "" = everyone (mixed doubles balances each category)
+  ): { byes: number[]; remaining: number[]; short: boolean } {
+    const quotaKey = (p: number) => (mixed ? categoryOf(p) : "");
+    const left = new Map(quotas);
+    const open = () => Array.from(left.values()).some((n) => n > 0);
+
+    const groups = new Map<number, number[][]>();
+    for (const unit of byeUnits(pool)) {
+      const bc = Math.max(...unit.map((p) => byeCounts[p] ?? 0));
+      const arr = groups.get(bc) ?? [];
+      arr.push(unit);
+      groups.set(bc, arr);
+    }
+
+    const byeList: number[] = [];
+    const countsSorted = Array.from(groups.keys()).sort((a, b) => a - b);
+
+    for (const bc of countsSorted) {
+      if (!open()) break;
+      const tied = shuffle(groups.get(bc) ?? [], random);
+      // League: among equals, whoever sat out most of their last session goes last
+      const lastBye = (unit: number[]) => Math.max(...unit.map((p) => args.carryOver?.lastByes[p - 1] ?? 0));
+      if (args.carryOver) tied.sort((a, b) => lastBye(a) - lastBye(b));
+      for (const unit of tied) {
+        if (!open()) break;
+        const fits = unit.every((p) => (left.get(quotaKey(p)) ?? 0) >= unit.filter((q) => quotaKey(q) === quotaKey(p)).length);
+        if (!fits) continue;
+        for (const p of unit) {
+          left.set(quotaKey(p), (left.get(quotaKey(p)) ?? 0) - 1);
+          byeList.push(p);
+        }
+      }
+    }
+
+    for (const p of byeList) byeCounts[p] = (byeCounts[p] ?? 0) + 1;
+
+    const byeSet = new Set(byeList);
+    const remaining = pool.filter((p) => !byeSet.has(p));
+
+    return { byes: byeList.sort((a, b) => a - b), remaining, short: open() };
+  }
+
+  function scoreGroupRR(g: number[]): number {
+    return partnerScoreRR(g, partnerCounts) + opponentScoreRR(g, opponentCounts, opponentWeight) + balanceScoreRR(g, balance);
+  }
+
+  function scoreCourts(courts: CourtAssignment[]): number {
+    let score = 0;
+
+    for (const { courtNumber, group: g } of courts) {
+      if (mode === "couples") {
+        const k = pairKey(g[0], g[1]);
+        score += (partnerCounts.get(k) ?? 0) * PARTNER_REPEAT_PENALTY;
+      } else {
+        score += scoreGroupRR(g) + courtScore(g, courtNumber, courtCounts, courtWeight);
+      }
+    }
+
+    return score;
+  }
+
+  function improveCourtOrder(courts: CourtAssignment[]): CourtAssignment[] {
+    // Pairwise swaps of whole groups between courts until no swap lowers the court-repeat score
+    const out = courts.map((c) => ({ ...c }));
+    const cost = (g: number[], courtNumber: number) => courtScore(g, courtNumber, courtCounts, courtWeight);
+    const fits = (g: number[], courtNumber: number) => courtFollowsRules(g, courtNumber, rules);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < out.length; i++) {
+        for (let j = i + 1; j < out.length; j++) {
+          const [a, b] = [out[i], out[j]];
+          const before = cost(a.group, a.courtNumber) + cost(b.group, b.courtNumber);
+          const after = cost(b.group, a.courtNumber) + cost(a.group, b.courtNumber);
+          if (a.group.length !== b.group.length) continue;
+          if (after < before && fits(b.group, a.courtNumber) && fits(a.group, b.courtNumber)) {
+            [a.group, b.group] = [b.group, a.group];
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return out;
+  }
+
+  function placeOnCourts(groups: number[][], gameCourts: number[], available: number[]): CourtAssignment[] | null {
+    // Groups are built in gameCourts order (doubles, then singles/cutthroat)
+    if (!rules.courtsFor.size) return groups.map((group, idx) => ({ courtNumber: gameCourts[idx], group }));
+
+    // Groups with the fewest allowed courts pick first; backtrack when a court is already taken
+    const options = groups.map((g) => available.filter((c) => fitsCourt(g.length, c) && courtFollowsRules(g, c, rules)));
+    const order = groups.map((_, i) => i).sort((a, b) => options[a].length - options[b].length);
+    const chosen: number[] = [];
+    const taken = new Set<number>();
+
+    const place = (k: number): boolean => {
+      if (k === order.length) return true;
+      const i = order[k];
+      for (const court of options[i]) {
+        if (taken.has(court)) continue;
+        taken.add(court);
+        chosen[i] = court;
+        if (place(k + 1)) return true;
+        taken.delete(court);
+      }
+      return false;
+    };
+
+    if (!place(0)) return null;
+    return groups.map((group, i) => ({ courtNumber: chosen[i], group })).sort((a, b) => a.courtNumber - b.courtNumber);
+  }
+
+  function mixedGroups(candidate: number[], courtsToUse: number): number[][] {
+    // Keep the candidate order within each category; court k gets two from each
+    const [first, second] = categoryNames.map((c) => candidate.filter((p) => categoryOf(p) === c));
+    return Array.from({ length: courtsToUse }, (_, k) => [...first.slice(2 * k, 2 * k + 2), ...second.slice(2 * k, 2 * k + 2)]);
+  }
+
+  function pinnedGroups(candidate: number[], sizes: number[]): number[][] | null {
+    // Pinned pairs take whole doubles team slots (picked at random); everyone else fills the other slots in candidate order
+    const playing = new Set(candidate);
+    const pairs: number[][] = [];
+    const paired = new Set<number>();
+    for (const p of candidate) {
+      const partner = rules.pinnedTo.get(p);
+      if (partner === undefined || !playing.has(partner) || paired.has(p)) continue;
+      pairs.push([p, partner]);
+      paired.add(p).add(partner);
+    }
+
+    const unpinned = candidate.filter((p) => !paired.has(p));
+    const [first, second] = mixed ? categoryNames.map((c) => unpinned.filter((p) => categoryOf(p) === c)) : [unpinned, []];
+    const teamSizes = sizes.flatMap((size) => (size === 3 ? [1, 2] : [size / 2, size / 2])); // two teams per court
+    const slots = teamSizes.map((_, i) => i);
+    const doublesSlots = slots.filter((i) => sizes[Math.floor(i / 2)] === 4);
+    if (pairs.length > doublesSlots.length) return null;
+    const pairSlots = new Set(shuffle(doublesSlots, random).slice(0, pairs.length));
+
+    const teams: number[][] = [];
+    let nextPair = 0;
+    let nextSingle = 0;
+    for (const slot of slots) {
+      if (pairSlots.has(slot)) {
+        teams.push(pairs[nextPair++]);
+      } else if (mixed) {
+        teams.push([first[nextSingle], second[nextSingle]]);
+        nextSingle += 1;
+      } else {
+        teams.push(first.slice(nextSingle, nextSingle + teamSizes[slot]));
+        nextSingle += teamSizes[slot];
+      }
+    }
+
+    return chunk(teams, 2).map(([a, b]) => [...a, ...b]);
+  }
+
+  // Team orders that break mixed doubles or a hard rule are never picked
+  const allowedOrder =
+    mixed || checkTeams
+      ? (o: number[]) => (!mixed || isMixedGroup(o, categoryOf)) && teamsFollowRules(o, rules, mode)
+      : undefined;
+
+  function chooseShortHanded(pool: number[], seats: number): number[] {
+    // Fewest singles/cutthroat games so far first (ties at random); pinned partners who are both here stay on doubles
+    const here = new Set(pool);
+    const free = pool.filter((p) => !here.has(rules.pinnedTo.get(p) ?? -1));
+    const pinned = pool.filter((p) => here.has(rules.pinnedTo.get(p) ?? -1));
+    const picked = [...shuffle(free, random).sort((a, b) => shortCounts[a] - shortCounts[b]), ...pinned].slice(0, seats);
+    for (const p of picked) shortCounts[p] += 1;
+    return picked;
+  }
+
+  function buildCourtsMinRepeats(
+    pool: number[],
+    gameCourts: number[],
+    sizes: number[],
+    available: number[],
+    shortHanded: number[] // already picked for the singles/cutthroat courts (the last entries of gameCourts)
+  ): CourtAssignment[] | null {
+    const needed = sizes.reduce((sum, n) => sum + n, 0);
+    const usable = pool.slice(0, needed);
+    const onShort = new Set(shortHanded);
+    const onDoubles = usable.filter((p) => !onShort.has(p));
+
+    const ATTEMPTS = mode === "couples" ? 400 : 1000;
+
+    let bestCourts: CourtAssignment[] | null = null;
+    let bestScore = Number.POSITIVE_INFINITY;
+
+    for (let t = 0; t < ATTEMPTS; t++) {
+      // With ratings, every other attempt starts from a jittered level sort so similar players share courts
+      const arrange = (ids: number[]) =>
+        balance && t % 2 === 1 ? jitteredLevelSort(ids, balance.ratingOf, random) : shuffle(ids, random);
+      const candidate = shortHanded.length ? [...arrange(onDoubles), ...arrange(shortHanded)] : arrange(usable);
+      let groups = rules.pinnedTo.size
+        ? pinnedGroups(candidate, sizes)
+        : mixed
+          ? mixedGroups(candidate, gameCourts.length)
+          : splitBySizes(candidate, sizes);
+      if (!groups) continue;
+
+      if (mode === "roundRobin") groups = groups.map((g) => bestOrderForRoundRobinGroup(g, scoreGroupRR, allowedOrder));
+      if (allowedOrder && !groups.every(allowedOrder)) continue;
+
+      let courts = placeOnCourts(groups, gameCourts, available);
+      if (!courts) continue;
+      if (mode === "roundRobin" && courtWeight > 0) courts = improveCourtOrder(courts);
+
+      const s = scoreCourts(courts);
+      if (s < bestScore) {
+        bestScore = s;
+        bestCourts = courts;
+        if (bestScore === 0) break;
+      }
+    }
+
+    return bestCourts;
+  }
+
+  for (let game = history.length + 1; game <= lastGame; game++) {
+    const lock = lockedGames.get(game);
+    const lockedIn = new Set(lock ? [...lock.courts.flatMap((c) => c.group), ...lock.byes] : []);
+    const missing = [...lockedIn].filter((p) => !isAvailable(p, game));
+    if (missing.length) {
+      const unit = mode === "couples" ? "couple" : "player";
+      return {
+        rounds,
+        error: `Game ${game} locks ${unit} #${missing[0]} in, but they aren't available then; unlock it or change their availability.`,
+      };
+    }
+    const here = participants.filter((p) => isAvailable(p, game));
+
+    // Late arrivals start level with the least-rested player instead of jumping the bye queue
+    const veterans = here.filter((p) => seen.has(p));
+    if (veterans.length) {
+      const floor = Math.min(...veterans.map((p) => byeCounts[p] ?? 0));
+      for (const p of here) if (!seen.has(p)) byeCounts[p] = Math.max(byeCounts[p] ?? 0, floor);
+    }
+    for (const p of here) seen.add(p);
+
+    const fixed = rotation?.[game - 1];
+    if (fixed) {
+      const courts = fixed.pairs.map((group, i) => ({ courtNumber: courtsForGame(game)[i], group }));
+      for (const p of fixed.byes) byeCounts[p] += 1;
+      recordCourts(courts);
+      rounds.push({ gameNumber: game, courts, byes: fixed.byes });
+      continue;
+    }
+
+    // Locked players are already placed; everyone else is planned on the courts left over
+    const present = here.filter((p) => !lockedIn.has(p));
+
+    const ladder = mode === "ladder" ? ladderOrder(present, game) : null;
+    if (ladder?.error) return { rounds, error: ladder.error };
+
+    // Mixed: courts are limited by the smaller category, and byes are balanced within each category
+    const lockedCourts = new Set(lock?.courts.map((c) => c.courtNumber));
+    const available = courtsForGame(game).filter((c) => !lockedCourts.has(c));
+    const byCategory = mixed ? categoryNames.map((c) => present.filter((p) => categoryOf(p) === c)) : [present];
+    const plan = mixed
+      ? available.slice(0, Math.min(...byCategory.map((ps) => Math.floor(ps.length / 2)))).map((court) => ({ court, size: 4 }))
+      : courtsToFill(available, present.length, mode, singles, !!args.spareCourts);
+    const gameCourts = plan.map((c) => c.court);
+    const sizes = plan.map((c) => c.size);
+    const seats = sizes.reduce((sum, n) => sum + n, 0);
+
+    if (mixed && gameCourts.length === 0 && !lockedCourts.size) {
+      const counts = byCategory.map((ps, i) => `${ps.length} ${categoryNames[i]}`).join(", ");
+      return { rounds, error: `Game ${game}: mixed doubles needs at least 2 players of each category (have ${counts}).` };
+    }
+
+    // 1) pick byes fairly
+    const quotas = new Map(
+      mixed
+        ? categoryNames.map((c, i) => [c, byCategory[i].length - gameCourts.length * 2] as const)
+        : [["", present.length - seats] as const]
+    );
+    const { byes, remaining, short } = chooseByesFairly(present, quotas);
+    if (short) {
+      return { rounds, error: "Pinned partners can't sit out together and still fill the courts.", stuckGame: game };
+    }
+
+    // 2) minimize repeats (matchups for couples; partners/opponents/courts for RR); ladder follows the results
+    // 3) map to selected court numbers
+    const shortSeats = mode === "roundRobin" ? sizes.filter((n) => n < 4).reduce((sum, n) => sum + n, 0) : 0;
+    const courts = ladder
+      ? placeOnCourts(ladderGroups(ladder.order, remaining, gameCourts.length), gameCourts, available)
+      : buildCourtsMinRepeats(remaining, gameCourts, sizes, available, shortSeats ? chooseShortHanded(remaining, shortSeats) : []);
+    if (!courts) {
+      return { rounds, error: "No arrangement on these courts follows every rule.", stuckGame: game };
+    }
+
+    // 4) update history
+    recordCourts(courts);
+    if (lock) recordRound(lock);
+
+    if (!lock) {
+      rounds.push({ gameNumber: game, courts, byes });
+    } else {
+      rounds.push({
+        gameNumber: game,
+        courts: [...courts, ...lock.courts].sort((a, b) => a.courtNumber - b.courtNumber),
+        byes: [...byes, ...lock.byes].sort((a, b) => a - b),
+      });
+    }
+  }
+
+  return { rounds, error: "" };
+}
@@ -0,0 +1,102 @@
+/**
+ * Public scheduling API (no React/DOM): the setup screen, the CLI and the tests all go through here.
+ * - generateSchedule: greedy draft for a whole session (or the next ladder game)
+ * - optimizeSession: whole-session improvement of a draft (plain function; the app runs it in a Web Worker)
+ * - analyzeSession / fairnessReport: Session Summary numbers and the per-person fairness report for a finished schedule
+ * - scheduleIssues: duplicates and broken rules in a hand-edited schedule
+ * - generatePoolPlay / createBracket / advanceBracket: tournament pools and the playoff bracket
+ * - carryOverFor / seasonReport: league history across sessions
+ * - computeStandings: standings from entered scores, ordered by the chosen tiebreakers
+ * - checkFeasibility: courts used, byes and unavoidable repeats for a setup, before generating
+ * - overridesFor / applyOverrides / encodeSharePayload: share links (recipe plus edited games)
+ * - parseCourtsInput / parseNumberList: the setup screen's text inputs
+ * - csvRosterDraft / rosterFromImport: roster import from a spreadsheet (CSV, semicolon- or tab-separated)
+ */
+
+export {
+  analyzeSession,
+  fairnessReport,
+  scheduleIssues,
+  type FairnessReport,
+  type RepeatedPairing,
+  type ScheduleIssue,
+  type SessionSummary,
+} from "./analyze";
+export {
+  courtSides,
+  createRng,
+  isCompleteScore,
+  randomSeed,
+  ratingBalanceFor,
+  type CourtAssignment,
+  type CourtScore,
+  type HardConstraint,
+  type Mode,
+  type RatingBalance,
+  type Round,
+  type SessionScores,
+} from "./core";
+export { checkFeasibility, type Feasibility, type FeasibilityInput } from "./feasibility";
+export {
+  describeConstraint,
+  generateSchedule,
+  type Availability,
+  type CourtChange,
+  type LadderRule,
+  type ScheduleArgs,
+} from "./generate";
+export { countAfterRosterChange, normalizeCategory, parseCourtsInput, parseNumberList } from "./input";
+export {
+  carryOverFor,
+  LEAGUE_DECAY,
+  leagueKey,
+  seasonReport,
+  type CarryOver,
+  type LeagueSession,
+  type SeasonRow,
+} from "./league";
+export {
+  countRepeats,
+  minimumRepeats,
+  optimizeSession,
+  type OptimizeProgress,
+  type OptimizeRequest,
+  type OptimizeResult,
+} from "./optimizer";
+export {
+  csvRosterDraft,
+  guessImportMapping,
+  IMPORT_FIELDS,
+  parseCsv,
+  rosterFromImport,
+  type ImportedPlayer,
+  type ImportField,
+  type RosterImport,
+} from "./roster";
+export {
+  applyOverrides,
+  courtsToText,
+  decodeSharePayload,
+  encodeSharePayload,
+  overridesFor,
+  type RoundOverride,
+} from "./share";
+export { computeStandings, DEFAULT_TIEBREAKERS, TIEBREAKERS, type StandingRow, type Tiebreaker } from "./standings";
+export {
+  advanceBracket,
+  bracketChampion,
+  createBracket,
+  generatePoolPlay,
+  isMatchPlayable,
+  playoffTeams,
+  poolName,
+  resolveBracket,
+  seedQualifiers,
+  splitIntoPools,
+  type Bracket,
+  type BracketFormat,
+  type BracketMatch,
+  type BracketSource,
+  type MatchStatus,
+  type TournamentSettings,
+} from "./tournament";
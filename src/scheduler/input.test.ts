@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { countAfterRosterChange, normalizeCategory, parseCourtsInput, parseNumberList } from "./input";
+
+describe("parseCourtsInput", () => {
+  it("treats a bare number as a court count", () => {
+    expect(parseCourtsInput("4")).toEqual({ courts: [1, 2, 3, 4], error: "" });
+    expect(parseCourtsInput(" 01 ")).toEqual({ courts: [1], error: "" });
+  });
+
+  it("treats a number with a comma as a single court number, not a count", () => {
+    expect(parseCourtsInput("3,")).toEqual({ courts: [3], error: "" });
+  });
+
+  it("parses lists and ranges, sorted and without duplicates", () => {
+    expect(parseCourtsInput("1-3,5,6").courts).toEqual([1, 2, 3, 5, 6]);
+    expect(parseCourtsInput("7, 2 - 4 ,2").courts).toEqual([2, 3, 4, 7]);
+  });
+
+  it("accepts reversed ranges", () => {
+    expect(parseCourtsInput("6-4").courts).toEqual([4, 5, 6]);
+  });
+
+  it("rejects empty input", () => {
+    expect(parseCourtsInput("").error).toMatch(/Please enter courts/);
+    expect(parseCourtsInput("   ").error).toMatch(/Please enter courts/);
+    expect(parseCourtsInput(" , ,").error).toMatch(/Please enter courts/);
+  });
+
+  it("rejects zero", () => {
+    expect(parseCourtsInput("0")).toEqual({ courts: [], error: "Court count must be at least 1." });
+    expect(parseCourtsInput("0-3").error).toBe('Invalid range "0-3". Use positive numbers.');
+    expect(parseCourtsInput("2,0").error).toBe('Invalid court number "0".');
+  });
+
+  it("rejects anything that isn't a number or a range", () => {
+    expect(parseCourtsInput("1-3,x").error).toBe('Invalid courts entry "x". Try "1-3,5,6" or "8".');
+    expect(parseCourtsInput("1-2-3").courts).toEqual([]);
+    expect(parseCourtsInput("-2").courts).toEqual([]);
+    expect(parseCourtsInput("2.5").courts).toEqual([]);
+  });
+});
+
+describe("parseNumberList", () => {
+  it("reads a single number as that number", () => {
+    expect(parseNumberList("3")).toEqual([3]);
+  });
+
+  it("reads lists and ranges", () => {
+    expect(parseNumberList("5, 1-3")).toEqual([1, 2, 3, 5]);
+  });
+
+  it("returns null for empty or invalid input", () => {
+    expect(parseNumberList("")).toBeNull();
+    expect(parseNumberList("1,a")).toBeNull();
+    expect(parseNumberList("0")).toBeNull();
+  });
+});
+
+describe("normalizeCategory", () => {
+  it("trims and uppercases", () => {
+    expect(normalizeCategory(" f ")).toBe("F");
+    expect(normalizeCategory(undefined)).toBe("");
+  });
+});
+
+describe("countAfterRosterChange", () => {
+  it("raises the count only when the roster outgrows it", () => {
+    expect(countAfterRosterChange("20", 25)).toBe("25");
+    expect(countAfterRosterChange("", 5)).toBe("5");
+  });
+
+  it("keeps the count when names are added, removed or cleared", () => {
+    expect(countAfterRosterChange("20", 5)).toBe("20");
+    expect(countAfterRosterChange("20", 0)).toBe("20");
+  });
+
+  it("keeps the count when availability pads the roster up to the chosen number", () => {
+    // 20 unnamed players, #3 arrives at game 3: the roster is padded to 3 rows
+    expect(countAfterRosterChange("20", 3)).toBe("20");
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Parsing for the free-text setup inputs (courts box, game/court lists, player categories, the count box vs. the roster).
+ * Inputs are text so phone keyboards can type "-" and ","; errors are user-facing sentences.
+ */
+
+export function parseCourtsInput(text: string): { courts: number[]; error: string } {
+  const raw = (text ?? "").trim();
+  if (!raw) return { courts: [], error: 'Please enter courts (example: "8" or "1-3,5,6").' };
+
+  // If just digits, treat as a count -> 1..N
+  if (/^\d+$/.test(raw)) {
+    const n = Number.parseInt(raw, 10);
+    if (!Number.isFinite(n) || n <= 0) return { courts: [], error: "Court count must be at least 1." };
+    return { courts: Array.from({ length: n }, (_, i) => i + 1), error: "" };
+  }
+
+  // Otherwise parse list/ranges like "1-3, 5,6"
+  const tokens = raw.split(",").map((t) => t.trim()).filter(Boolean);
+  if (!tokens.length) return { courts: [], error: 'Please enter courts (example: "1-3,5,6").' };
+
+  const set = new Set<number>();
+
+  for (const tok of tokens) {
+    const range = tok.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      const a = Number.parseInt(range[1], 10);
+      const b = Number.parseInt(range[2], 10);
+      if (!Number.isFinite(a) || !Number.isFinite(b) || a <= 0 || b <= 0) {
+        return { courts: [], error: `Invalid range "${tok}". Use positive numbers.` };
+      }
+      const start = Math.min(a, b);
+      const end = Math.max(a, b);
+      for (let i = start; i <= end; i++) set.add(i);
+      continue;
+    }
+
+    if (/^\d+$/.test(tok)) {
+      const n = Number.parseInt(tok, 10);
+      if (!Number.isFinite(n) || n <= 0) return { courts: [], error: `Invalid court number "${tok}".` };
+      set.add(n);
+      continue;
+    }
+
+    return { courts: [], error: `Invalid courts entry "${tok}". Try "1-3,5,6" or "8".` };
+  }
+
+  const courts = Array.from(set).sort((a, b) => a - b);
+  if (!courts.length) return { courts: [], error: "No valid courts found." };
+  return { courts, error: "" };
+}
+
+export function parseNumberList(text: string): number[] | null {
+  // "1-3, 5" -> [1, 2, 3, 5]; a single number is just that number (unlike the courts box)
+  const tokens = (text ?? "").split(",").map((t) => t.trim()).filter(Boolean);
+  const set = new Set<number>();
+  for (const tok of tokens) {
+    const range = tok.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (!range && !/^\d+$/.test(tok)) return null;
+    const a = Number.parseInt(range ? range[1] : tok, 10);
+    const b = range ? Number.parseInt(range[2], 10) : a;
+    if (a <= 0 || b <= 0) return null;
+    for (let i = Math.min(a, b); i <= Math.max(a, b); i++) set.add(i);
+  }
+  return set.size ? Array.from(set).sort((a, b) => a - b) : null;
+}
+
+export function countAfterRosterChange(countText: string, rosterLength: number): string {
+  // The roster is optional: it only raises the count when it outgrows it, and never shrinks or clears the session
+  const count = Number.parseInt((countText ?? "").replace(/[^\d]/g, ""), 10) || 0;
+  return rosterLength > count ? String(rosterLength) : countText;
+}
+
+export function normalizeCategory(category: string | undefined): string {
+  return (category ?? "").trim().toUpperCase();
+}
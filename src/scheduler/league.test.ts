@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSession } from "./analyze";
+import { generateSchedule } from "./generate";
+import { carryOverFor, seasonReport, type LeagueSession } from "./league";
+
+const names = ["Ann", "Bob", "Cat", "Dan", "Eve", "Fay", "Gus", "Hal", "Ivy"];
+
+function session(id: string, order: string[], scores: LeagueSession["scores"] = {}): LeagueSession {
+  // One game: the first four on court 1, the next four on court 2, anyone else on a bye
+  return {
+    id,
+    date: "2026-01-01T00:00:00.000Z",
+    mode: "roundRobin",
+    names: order,
+    rounds: [
+      {
+        gameNumber: 1,
+        courts: [
+          { courtNumber: 1, group: [1, 2, 3, 4] },
+          { courtNumber: 2, group: [5, 6, 7, 8] },
+        ],
+        byes: order.length > 8 ? [9] : [],
+      },
+    ],
+    scores,
+  };
+}
+
+describe("carryOverFor", () => {
+  it("matches players by name and halves each session back", () => {
+    const lastWeek = session("b", ["Ann", "Bob", "Cat", "Dan", "Eve", "Fay", "Gus", "Hal"]);
+    const before = session("a", ["Ann", "Bob", "Eve", "Fay", "Cat", "Dan", "Gus", "Hal"]);
+    // This week Bob is #1 and Ann is #2
+    const carry = carryOverFor([lastWeek, before], ["bob", "Ann ", "Cat", "Dan", "Eve", "Fay", "Gus", "Hal"], "roundRobin", 10);
+
+    expect(carry.partners).toContainEqual([1, 2, 1.5]);
+    expect(carry.partners).toContainEqual([3, 4, 1.5]);
+    expect(carry.opponents).toContainEqual([2, 3, 1]);
+  });
+
+  it("takes bye shares from each player's most recent session", () => {
+    const carry = carryOverFor([session("a", names)], names, "roundRobin", 5);
+    expect(carry.lastByes).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(carryOverFor([session("a", names)], names, "couples", 5).partners).toEqual([]);
+  });
+});
+
+describe("league carry-over in generateSchedule", () => {
+  it("steers away from last session's partners", () => {
+    const lastWeek = session("a", names.slice(0, 8));
+    const carryOver = carryOverFor([lastWeek], names.slice(0, 8), "roundRobin", 10);
+    for (const seed of [1, 2, 3]) {
+      const { rounds } = generateSchedule({ mode: "roundRobin", participantCount: 8, courtNumbers: [1, 2], games: 1, seed, carryOver });
+      // Nobody partners the same player as last week
+      expect(analyzeSession([...lastWeek.rounds, ...rounds], "roundRobin").repeatPairs).toBe(0);
+    }
+  });
+
+  it("doesn't give last session's bye to the same player again", () => {
+    const carryOver = carryOverFor([session("a", names)], names, "roundRobin", 5);
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const { rounds } = generateSchedule({ mode: "roundRobin", participantCount: 9, courtNumbers: [1, 2], games: 1, seed, carryOver });
+      expect(rounds[0].byes).not.toContain(9);
+    }
+  });
+});
+
+describe("seasonReport", () => {
+  it("adds up attendance, games, byes and results by name", () => {
+    const week1 = session("a", names, { 1: { 1: { teamA: 11, teamB: 7 } } });
+    const week2 = session("b", ["Ivy", ...names.slice(0, 8)]);
+    const rows = seasonReport([week2, week1]);
+    const ann = rows.find((r) => r.name === "Ann");
+    const ivy = rows.find((r) => r.name === "Ivy");
+
+    expect(ann).toMatchObject({ sessions: 2, played: 2, byes: 0, wins: 1, losses: 0, partners: 2 });
+    expect(ivy).toMatchObject({ sessions: 2, played: 1, byes: 1, wins: 0, losses: 0, partners: 1 });
+    expect(rows.find((r) => r.name === "Cat")).toMatchObject({ wins: 0, losses: 1 });
+  });
+});
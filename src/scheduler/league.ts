@@ -0,0 +1,157 @@
+/**
+ * League history: finished sessions carried into the next one.
+ * - Players are matched across sessions by name (numbers change week to week); unnamed entries aren't carried
+ * - Carry-over: earlier pairings count as repeats in the new session, weighted and halving with each session back
+ * - Bye priority: whoever sat out the biggest share of their last session is last in line for a bye (ties only,
+ *   so byes within the new session stay as even as ever)
+ * - Couples sessions carry into couples sessions; Round Robin and ladder sessions carry into each other
+ * - Season report: attendance, games, byes, results and distinct partners per player across all sessions
+ */
+
+import { courtSides, isCompleteScore, pairKey, partnerKeysRR, opponentKeysRR, type Mode, type Round, type SessionScores } from "./core";
+
+export type LeagueSession = {
+  id: string;
+  date: string; // ISO timestamp of when it was recorded
+  mode: Mode;
+  names: string[]; // index 0 = participant #1
+  rounds: Round[];
+  scores: SessionScores;
+};
+
+// Earlier sessions' pairings and byes, in this session's participant numbers
+export type CarryOver = {
+  partners: [a: number, b: number, weight: number][]; // couples: matchups
+  opponents: [a: number, b: number, weight: number][]; // empty for couples
+  lastByes: number[]; // index 0 = #1: share of their last session's games spent on a bye (0-1)
+};
+
+export type SeasonRow = {
+  name: string;
+  sessions: number;
+  played: number;
+  byes: number;
+  wins: number;
+  losses: number;
+  partners: number; // different partners (couples: different opponents)
+};
+
+export const LEAGUE_DECAY = 0.5; // each session further back counts half as much
+
+export function leagueKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function sameKind(a: Mode, b: Mode): boolean {
+  return (a === "couples") === (b === "couples");
+}
+
+export function carryOverFor(sessions: LeagueSession[], names: string[], mode: Mode, weight: number): CarryOver {
+  // sessions: most recent first; weight 0-10, where 10 counts last session's pairings like this session's
+  const ids = new Map(names.flatMap((name, i) => (leagueKey(name) ? [[leagueKey(name), i + 1] as const] : [])));
+  const partners = new Map<string, number>();
+  const opponents = new Map<string, number>();
+  const lastByes = new Array<number>(names.length).fill(0);
+  const byeSeen = new Set<number>();
+
+  sessions
+    .filter((s) => sameKind(s.mode, mode))
+    .forEach((session, age) => {
+      const factor = (weight / 10) * LEAGUE_DECAY ** age;
+      const idOf = (p: number) => ids.get(leagueKey(session.names[p - 1] ?? ""));
+      const add = (counts: Map<string, number>, keys: string[]) => {
+        for (const key of keys) {
+          const [a, b] = key.split("-").map((p) => idOf(Number(p)));
+          if (a === undefined || b === undefined) continue;
+          const k = pairKey(a, b);
+          counts.set(k, (counts.get(k) ?? 0) + factor);
+        }
+      };
+
+      for (const round of session.rounds) {
+        for (const { group: g } of round.courts) {
+          if (mode === "couples") {
+            add(partners, [pairKey(g[0], g[1])]);
+          } else {
+            add(partners, partnerKeysRR(g));
+            add(opponents, opponentKeysRR(g));
+          }
+        }
+      }
+
+      // Bye share from the most recent session each player took part in
+      const byes = new Map<number, number>();
+      const present = new Set<number>();
+      for (const round of session.rounds) {
+        for (const p of round.byes) byes.set(p, (byes.get(p) ?? 0) + 1);
+        for (const p of [...round.byes, ...round.courts.flatMap((c) => c.group)]) present.add(p);
+      }
+      for (const p of present) {
+        const id = idOf(p);
+        if (id === undefined || byeSeen.has(id)) continue;
+        byeSeen.add(id);
+        lastByes[id - 1] = (byes.get(p) ?? 0) / Math.max(1, session.rounds.length);
+      }
+    });
+
+  const entries = (counts: Map<string, number>): [number, number, number][] =>
+    Array.from(counts, ([key, w]) => {
+      const [a, b] = key.split("-").map(Number);
+      return [a, b, w];
+    });
+  return { partners: entries(partners), opponents: entries(opponents), lastByes };
+}
+
+export function seasonReport(sessions: LeagueSession[]): SeasonRow[] {
+  const rows = new Map<string, SeasonRow & { met: Set<string> }>();
+  const rowFor = (name: string) => {
+    const key = leagueKey(name);
+    let row = rows.get(key);
+    if (!row) {
+      row = { name: name.trim(), sessions: 0, played: 0, byes: 0, wins: 0, losses: 0, partners: 0, met: new Set() };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const session of sessions) {
+    const nameOf = (p: number) => (session.names[p - 1] ?? "").trim();
+    const attended = new Set<string>();
+
+    for (const round of session.rounds) {
+      for (const p of round.byes) {
+        if (!nameOf(p)) continue;
+        rowFor(nameOf(p)).byes += 1;
+        attended.add(leagueKey(nameOf(p)));
+      }
+
+      for (const { courtNumber, group } of round.courts) {
+        const score = session.scores[round.gameNumber]?.[courtNumber];
+        const sides = courtSides(group);
+        for (const [s, side] of sides.entries()) {
+          const others = session.mode === "couples" ? sides[1 - s] : group.length === 4 ? side : [];
+          for (const p of side) {
+            if (!nameOf(p)) continue;
+            const row = rowFor(nameOf(p));
+            attended.add(leagueKey(nameOf(p)));
+            row.played += 1;
+            for (const q of others) if (q !== p && nameOf(q)) row.met.add(leagueKey(nameOf(q)));
+            // Cutthroat is scored individually, so it isn't a win or a loss here either
+            if (group.length === 3 || !isCompleteScore(score) || score.teamA === score.teamB) continue;
+            if ((score.teamA > score.teamB) === (s === 0)) row.wins += 1;
+            else row.losses += 1;
+          }
+        }
+      }
+    }
+
+    for (const key of attended) {
+      const row = rows.get(key);
+      if (row) row.sessions += 1;
+    }
+  }
+
+  return Array.from(rows.values())
+    .map(({ met, ...row }) => ({ ...row, partners: met.size }))
+    .sort((a, b) => b.sessions - a.sessions || b.wins - a.wins || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,267 @@
+/**
+ * Whole-session optimizer (simulated annealing).
+ * - Starts from a complete schedule (the greedy generator's draft) and improves all games at once
+ * - Moves: swap two players within one game (between courts, or across teams on the same court)
+ * - Byes, frozen games, locked courts and who plays singles/cutthroat never change, so those stay balanced as generated
+ * - Mixed doubles: only players of the same category swap, so every team stays mixed
+ * - Hard rules (pinned partners, forbidden pairings, required courts) are never broken; pinned pairs stay put
+ * - Same costs as the generator: repeat partners/matchups, repeat opponents, repeat courts, rating balance
+ *   (including pairings carried over from earlier league sessions)
+ * - Deterministic for a given seed: the cooling schedule follows the iteration count, not the clock,
+ *   so replaying the same number of iterations (maxIterations) rebuilds the exact same schedule
+ * - Runs inside a Web Worker (see optimizer.worker.ts); it is a plain function so it can run anywhere
+ */
+
+import {
+  balanceScoreRR,
+  courtFollowsRules,
+  courtKey,
+  createRng,
+  indexConstraints,
+  isShortHanded,
+  OPPONENT_REPEAT_PENALTY,
+  opponentKeysRR,
+  pairKey,
+  partnerKeysRR,
+  PARTNER_REPEAT_PENALTY,
+  ratingBalanceFor,
+  teamsFollowRules,
+  type HardConstraint,
+  type Mode,
+  type Round,
+} from "./core";
+import type { CarryOver } from "./league";
+
+export type OptimizeRequest = {
+  mode: Mode;
+  rounds: Round[];
+  frozenGames: number; // games 1..frozenGames stay exactly as they are
+  locked?: Round[]; // courts listed here (manual edits) stay exactly as they are too
+  carryOver?: CarryOver; // league: earlier sessions' pairings count as repeats
+  ratings: (number | undefined)[]; // index 0 = participant #1
+  balanceWeight: number;
+  opponentWeight: number;
+  courtWeight: number;
+  categories: string[]; // mixed doubles only: normalized category per participant (index 0 = #1); empty = any swap
+  constraints: HardConstraint[];
+  seed: number;
+  timeBudgetMs: number;
+  maxIterations?: number; // replay: stop after exactly this many iterations (ignores the time budget)
+};
+
+export type OptimizeProgress = {
+  fraction: number; // share of the time budget used (0..1)
+  repeats: number; // repeats in the best schedule found so far
+};
+
+export type OptimizeResult = {
+  rounds: Round[];
+  repeats: number;
+  minimumRepeats: number;
+  iterations: number;
+};
+
+export type OptimizerMessage =
+  | { type: "progress"; progress: OptimizeProgress }
+  | { type: "done"; result: OptimizeResult };
+
+const START_TEMPERATURE = PARTNER_REPEAT_PENALTY;
+const END_TEMPERATURE = 0.05;
+const COOLING_CYCLE = 50_000; // iterations per heat-up/cool-down cycle
+const PROGRESS_INTERVAL_MS = 100;
+
+/* ---------------- Repeat counting ---------------- */
+
+export function countRepeats(rounds: Round[], mode: Mode): number {
+  // Couples: repeat matchups. Round Robin: repeat partner pairings.
+  const counts = new Map<string, number>();
+  for (const round of rounds) {
+    for (const { group: g } of round.courts) {
+      const keys = mode === "couples" ? [pairKey(g[0], g[1])] : partnerKeysRR(g);
+      for (const k of keys) counts.set(k, (counts.get(k) ?? 0) + 1);
+    }
+  }
+
+  let repeats = 0;
+  for (const count of counts.values()) repeats += Math.max(0, count - 1);
+  return repeats;
+}
+
+export function minimumRepeats(rounds: Round[], mode: Mode): number {
+  // Lower bound: pairings handed out vs. distinct pairs available, and per person
+  // more games than there are different partners/opponents to meet.
+  const gamesPlayed = new Map<number, number>();
+  let pairings = 0;
+
+  for (const round of rounds) {
+    for (const court of round.courts) {
+      pairings += mode === "couples" ? 1 : partnerKeysRR(court.group).length;
+      for (const p of court.group) gamesPlayed.set(p, (gamesPlayed.get(p) ?? 0) + 1);
+    }
+  }
+
+  const n = gamesPlayed.size;
+  const distinctPairs = (n * (n - 1)) / 2;
+
+  let overflow = 0;
+  for (const k of gamesPlayed.values()) overflow += Math.max(0, k - (n - 1));
+
+  return Math.max(0, pairings - distinctPairs, Math.ceil(overflow / 2));
+}
+
+/* ---------------- Annealing ---------------- */
+
+export function optimizeSession(req: OptimizeRequest, onProgress?: (progress: OptimizeProgress) => void): OptimizeResult {
+  const { mode, frozenGames } = req;
+  const random = createRng(req.seed);
+  const balance = mode === "roundRobin" ? ratingBalanceFor(req.ratings, req.balanceWeight) : null;
+  const opponentPenalty = mode === "roundRobin" ? req.opponentWeight * OPPONENT_REPEAT_PENALTY : 0;
+  const courtPenalty = mode === "roundRobin" ? req.courtWeight : 0;
+  const rules = indexConstraints(req.constraints);
+  const checkRules = req.constraints.length > 0;
+
+  const rounds: Round[] = req.rounds.map((r) => ({
+    ...r,
+    courts: r.courts.map((c) => ({ ...c, group: c.group.slice() })),
+    byes: r.byes.slice(),
+  }));
+
+  const partnerCounts = new Map<string, number>();
+  const opponentCounts = new Map<string, number>();
+  const courtCounts = new Map<string, number>();
+  for (const [a, b, weight] of req.carryOver?.partners ?? []) partnerCounts.set(pairKey(a, b), weight);
+  for (const [a, b, weight] of req.carryOver?.opponents ?? []) opponentCounts.set(pairKey(a, b), weight);
+
+  // A pair seen c times costs penalty * c*(c-1)/2, which is what the greedy generator adds up game by game
+  function bump(counts: Map<string, number>, key: string, delta: 1 | -1, penalty: number): number {
+    const before = counts.get(key) ?? 0;
+    const after = before + delta;
+    counts.set(key, after);
+    return delta > 0 ? penalty * before : -penalty * after;
+  }
+
+  function applyCourt(group: number[], courtNumber: number, delta: 1 | -1): number {
+    if (mode === "couples") return bump(partnerCounts, pairKey(group[0], group[1]), delta, PARTNER_REPEAT_PENALTY);
+
+    let change = 0;
+    for (const k of partnerKeysRR(group)) change += bump(partnerCounts, k, delta, PARTNER_REPEAT_PENALTY);
+    if (opponentPenalty > 0) {
+      for (const k of opponentKeysRR(group)) change += bump(opponentCounts, k, delta, opponentPenalty);
+    }
+    if (courtPenalty > 0) {
+      for (const p of group) change += bump(courtCounts, courtKey(p, courtNumber), delta, courtPenalty);
+    }
+    return change + delta * balanceScoreRR(group, balance);
+  }
+
+  let cost = 0;
+  for (const round of rounds) {
+    for (const court of round.courts) cost += applyCourt(court.group, court.courtNumber, 1);
+  }
+
+  // Every seat in a game as [court index, position]; singles courts have two seats, doubles four, locked courts none
+  const lockedCourts = new Set((req.locked ?? []).flatMap((r) => r.courts.map((c) => `${r.gameNumber}:${c.courtNumber}`)));
+  const seats = rounds.map((r) =>
+    r.courts.flatMap((c, ci) =>
+      lockedCourts.has(`${r.gameNumber}:${c.courtNumber}`) ? [] : c.group.map((_, i) => [ci, i] as const)
+    )
+  );
+
+  // Only games after the frozen ones, with something to swap
+  const movable = rounds
+    .map((r, index) => ({ r, index }))
+    .filter(({ r, index }) => r.gameNumber > frozenGames && r.courts.length >= (mode === "couples" ? 2 : 1) && seats[index].length)
+    .map(({ index }) => index);
+
+  const snapshot = () => rounds.map((r) => r.courts.map((c) => c.group.slice()));
+  let best = snapshot();
+  let bestCost = cost;
+  let iterations = 0;
+
+  const budget = Math.max(0, req.timeBudgetMs);
+  const started = performance.now();
+  let lastProgress = started;
+
+  const bestRounds = (): Round[] =>
+    rounds.map((r, ri) => ({ ...r, courts: r.courts.map((c, ci) => ({ ...c, group: best[ri][ci].slice() })) }));
+
+  const maxIterations = req.maxIterations ?? 0;
+  const replay = typeof req.maxIterations === "number";
+  let temperature = START_TEMPERATURE;
+
+  while (movable.length && bestCost > 1e-9) {
+    if (replay && iterations >= maxIterations) break;
+
+    if ((iterations & 511) === 0) {
+      const now = performance.now();
+      if (!replay && now - started >= budget) break;
+
+      const cycle = (iterations % COOLING_CYCLE) / COOLING_CYCLE;
+      temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, cycle);
+
+      if (onProgress && now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        const fraction = replay ? iterations / maxIterations : (now - started) / budget;
+        onProgress({ fraction, repeats: countRepeats(bestRounds(), mode) });
+      }
+    }
+    iterations++;
+
+    const ri = movable[Math.floor(random() * movable.length)];
+    const courts = rounds[ri].courts;
+    const slots = seats[ri];
+    const [ca, ia] = slots[Math.floor(random() * slots.length)];
+    const [cb, ib] = slots[Math.floor(random() * slots.length)];
+    const courtA = courts[ca];
+    const courtB = courts[cb];
+
+    // Same court: only doubles teams can change (across the two teams); singles/cutthroat players swap among themselves
+    if (ca === cb && (courtA.group.length !== 4 || Math.floor(ia / 2) === Math.floor(ib / 2))) continue;
+    if (isShortHanded(courtA.group, mode) !== isShortHanded(courtB.group, mode)) continue;
+
+    if (req.categories.length && req.categories[courtA.group[ia] - 1] !== req.categories[courtB.group[ib] - 1]) continue;
+    const swap = () => {
+      [courtA.group[ia], courtB.group[ib]] = [courtB.group[ib], courtA.group[ia]];
+    };
+
+    if (checkRules) {
+      // A pinned player moves only together with their partner, which a single swap can't do
+      const pinnedHere = (group: number[], i: number) => group.includes(rules.pinnedTo.get(group[i]) ?? -1);
+      if (pinnedHere(courtA.group, ia) || pinnedHere(courtB.group, ib)) continue;
+
+      const follows = (c: { group: number[]; courtNumber: number }) =>
+        teamsFollowRules(c.group, rules, mode) && courtFollowsRules(c.group, c.courtNumber, rules);
+      swap();
+      const allowed = follows(courtA) && follows(courtB);
+      swap();
+      if (!allowed) continue;
+    }
+    const reapply = (delta: 1 | -1): number =>
+      applyCourt(courtA.group, courtA.courtNumber, delta) +
+      (ca === cb ? 0 : applyCourt(courtB.group, courtB.courtNumber, delta));
+
+    let change = reapply(-1);
+    swap();
+    change += reapply(1);
+
+    if (change <= 0 || random() < Math.exp(-change / temperature)) {
+      cost += change;
+      if (cost < bestCost - 1e-9) {
+        bestCost = cost;
+        best = snapshot();
+      }
+    } else {
+      reapply(-1);
+      swap();
+      reapply(1);
+    }
+  }
+
+  const result = bestRounds();
+  return {
+    rounds: result,
+    repeats: countRepeats(result, mode),
+    minimumRepeats: minimumRepeats(result, mode),
+    iterations,
+  };
+}
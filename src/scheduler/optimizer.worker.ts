@@ -0,0 +1,15 @@
+/**
+ * Web Worker entry: runs optimizeSession off the main thread and streams progress.
+ * Cancel from the page with worker.terminate(); the draft schedule stays in place.
+ */
+
+import { optimizeSession, type OptimizeRequest, type OptimizerMessage } from "./optimizer";
+
+function send(message: OptimizerMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<OptimizeRequest>) => {
+  const result = optimizeSession(event.data, (progress) => send({ type: "progress", progress }));
+  send({ type: "done", result });
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { csvRosterDraft, parseCsv, rosterFromImport, type RosterImport } from "./roster";
+
+describe("parseCsv", () => {
+  it("keeps commas, line breaks and doubled quotes inside quoted cells", () => {
+    const text = 'Name,Notes\n"Smith, Ann","Says ""hi""\nat the net"\nBob,plain\n';
+    expect(parseCsv(text)).toEqual([
+      ["Name", "Notes"],
+      ["Smith, Ann", 'Says "hi"\nat the net'],
+      ["Bob", "plain"],
+      [""],
+    ]);
+  });
+
+  it("picks up semicolons and tabs, and drops a byte-order mark and CRLF line ends", () => {
+    expect(parseCsv("\uFEFFName;Rating\r\nAnn;3,5\r\n")).toEqual([["Name", "Rating"], ["Ann", "3,5"], [""]]);
+    expect(parseCsv("Ann\t3.5\nBob\t4")).toEqual([
+      ["Ann", "3.5"],
+      ["Bob", "4"],
+    ]);
+  });
+
+  it("trims cells and keeps blank lines so row numbers match the file", () => {
+    expect(parseCsv(' Ann , "  Bob "\n\nCy')).toEqual([["Ann", "Bob"], [""], ["Cy"]]);
+  });
+});
+
+describe("csvRosterDraft", () => {
+  it("maps columns from a header row, partner before name", () => {
+    const draft = csvRosterDraft("club.csv", "Player,Partner name,DUPR,Gender\nAnn,Bob,3.5,F\nBob,Ann,3.75,M");
+    expect(draft).toMatchObject({
+      headers: ["Player", "Partner name", "DUPR", "Gender"],
+      firstRow: 2,
+      mapping: { name: 0, partner: 1, rating: 2, category: 3 },
+    });
+    expect(draft?.rows).toHaveLength(2);
+  });
+
+  it("reads a file without a header as names in the first column", () => {
+    const draft = csvRosterDraft("list.csv", "Ann,3.5\nBob\n");
+    expect(draft).toMatchObject({
+      headers: ["Column 1", "Column 2"],
+      firstRow: 1,
+      mapping: { name: 0, rating: -1, category: -1, partner: -1 },
+    });
+    expect(draft?.rows[0]).toEqual(["Ann", "3.5"]);
+  });
+
+  it("returns null for a file with nothing in it", () => {
+    expect(csvRosterDraft("empty.csv", "\n ,\n")).toBeNull();
+  });
+});
+
+describe("rosterFromImport", () => {
+  const draft = (rows: string[][]): RosterImport => ({
+    fileName: "club.csv",
+    headers: ["Name", "Rating", "Gender", "Partner"],
+    rows,
+    firstRow: 2,
+    mapping: { name: 0, rating: 1, category: 2, partner: 3 },
+    settings: {},
+  });
+
+  it("builds players and pins fixed partners named on either row", () => {
+    const result = rosterFromImport(
+      draft([["Ann", "3,5", "F", "Bob"], ["Bob", "4", "M", "ann"], [], ["Cy", "", "", ""]])
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.players).toEqual([
+      { name: "Ann", rating: 3.5, category: "F" },
+      { name: "Bob", rating: 4, category: "M" },
+      { name: "Cy" },
+    ]);
+    expect(result.pins).toEqual([{ kind: "pinPartners", players: [1, 2] }]);
+  });
+
+  it("reports problems by file row", () => {
+    const result = rosterFromImport(
+      draft([
+        ["Ann", "eleven", "", "Dee"],
+        ["", "3", "", ""],
+        ["ann", "12", "", "Ann"],
+      ])
+    );
+    expect(result.errors).toEqual([
+      'Row 2: rating "eleven" is not a number.',
+      "Row 3: missing name.",
+      'Row 4: "ann" is already on row 2.',
+      "Row 4: rating 12 is outside 0–10.",
+      'Row 2: partner "Dee" is not on the roster.',
+      'Row 4: "ann" cannot be their own partner.',
+    ]);
+  });
+
+  it("asks for a name column before anything else", () => {
+    const result = rosterFromImport({
+      ...draft([["Ann"]]),
+      mapping: { name: -1, rating: -1, category: -1, partner: -1 },
+    });
+    expect(result).toEqual({ players: [], pins: [], errors: ["Choose the column that holds the names."] });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Roster import: spreadsheet rows (or the app's JSON player lists) mapped to players and pinned partners.
+ * - parseCsv: cells may be quoted to hold delimiters, line breaks and "" escapes
+ * - csvRosterDraft: a header row is spotted by its column names; without one, the first column is the names
+ * - rosterFromImport: players from the chosen columns, with row-numbered errors (missing names, duplicates, ratings)
+ * Fixed partners become pinPartners rules, matched by name, so both partners must be on the roster.
+ */
+
+import type { HardConstraint, Mode } from "./core";
+
+export type ImportField = "name" | "rating" | "category" | "partner";
+
+export type RosterImport = {
+  fileName: string;
+  headers: string[]; // header row from the file, or "Column 1", "Column 2", ...
+  rows: string[][];
+  firstRow: number; // file row number of rows[0], for error messages
+  mapping: Record<ImportField, number>; // column index per field; -1 = not imported
+  settings: { mode?: Mode; courtsText?: string; gamesText?: string }; // JSON only: setup fields from the file
+};
+
+// What a roster row can set; the app's player type adds availability on top
+export type ImportedPlayer = { name: string; rating?: number; category?: string };
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; header: RegExp }[] = [
+  { field: "name", label: "Name", header: /name|player|couple/i },
+  { field: "rating", label: "Rating", header: /rating|dupr|level|skill/i },
+  { field: "category", label: "Gender / category", header: /gender|sex|category/i },
+  { field: "partner", label: "Fixed partner", header: /partner/i },
+];
+
+const NO_MAPPING: Record<ImportField, number> = { name: -1, rating: -1, category: -1, partner: -1 };
+
+export function guessImportMapping(headers: string[]): Record<ImportField, number> {
+  const mapping = { ...NO_MAPPING };
+  const taken = new Set<number>();
+  // "Partner name" is a partner column, so partner claims its column before name does
+  for (const field of ["partner", "name", "rating", "category"] as ImportField[]) {
+    const { header } = IMPORT_FIELDS.find((f) => f.field === field)!;
+    const index = headers.findIndex((h, i) => !taken.has(i) && header.test(h));
+    if (index >= 0) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+export function parseCsv(text: string): string[][] {
+  // RFC 4180-ish: quoted cells may hold delimiters, quotes ("") and line breaks.
+  // Excel in many locales saves with ";", and spreadsheet copies are tab-separated.
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [";", "\t"].reduce(
+    (best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best),
+    ","
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  // Blank lines stay in so row numbers match the file
+  return rows.map((r) => r.map((c) => c.trim()));
+}
+
+export function csvRosterDraft(fileName: string, text: string): RosterImport | null {
+  // null when the file has no rows at all
+  const table = parseCsv(text);
+  if (!table.some((r) => r.some(Boolean))) return null;
+
+  const width = Math.max(...table.map((r) => r.length));
+  const guessed = guessImportMapping(table[0]);
+  const hasHeader = Object.values(guessed).some((index) => index >= 0);
+  const headers = Array.from({ length: width }, (_, i) => (hasHeader && table[0][i]) || `Column ${i + 1}`);
+
+  return {
+    fileName,
+    headers,
+    rows: hasHeader ? table.slice(1) : table,
+    firstRow: hasHeader ? 2 : 1,
+    // No header row: the first column is almost always the names
+    mapping: hasHeader ? guessed : { ...NO_MAPPING, name: 0 },
+    settings: {},
+  };
+}
+
+export function rosterFromImport(draft: RosterImport): {
+  players: ImportedPlayer[];
+  pins: HardConstraint[];
+  errors: string[];
+} {
+  const { mapping } = draft;
+  if (mapping.name < 0) return { players: [], pins: [], errors: ["Choose the column that holds the names."] };
+
+  const errors: string[] = [];
+  const cell = (row: string[], field: ImportField) => (mapping[field] >= 0 ? (row[mapping[field]] ?? "").trim() : "");
+  const rowOfName = new Map<string, number>();
+  const numberOfName = new Map<string, number>(); // participant number (roster position)
+  const players: ImportedPlayer[] = [];
+
+  draft.rows.forEach((row, index) => {
+    const rowNumber = draft.firstRow + index;
+    const name = cell(row, "name");
+    if (!row.some((c) => c.trim())) return;
+    if (!name) {
+      errors.push(`Row ${rowNumber}: missing name.`);
+      return;
+    }
+
+    const key = name.toLowerCase();
+    const earlier = rowOfName.get(key);
+    if (earlier !== undefined) errors.push(`Row ${rowNumber}: "${name}" is already on row ${earlier}.`);
+    else rowOfName.set(key, rowNumber);
+    if (!numberOfName.has(key)) numberOfName.set(key, players.length + 1);
+
+    const player: ImportedPlayer = { name };
+
+    const ratingText = cell(row, "rating");
+    if (ratingText) {
+      const rating = Number(ratingText.replace(",", "."));
+      if (!Number.isFinite(rating)) errors.push(`Row ${rowNumber}: rating "${ratingText}" is not a number.`);
+      else if (rating < 0 || rating > 10) errors.push(`Row ${rowNumber}: rating ${rating} is outside 0–10.`);
+      else player.rating = rating;
+    }
+
+    const category = cell(row, "category");
+    if (category) player.category = category;
+
+    players.push(player);
+  });
+
+  // Fixed partners become pinned-partner rules; they are matched by name, so they must be on the roster too
+  const pins: HardConstraint[] = [];
+  const pinnedTo = new Map<number, number>();
+  draft.rows.forEach((row, index) => {
+    const name = cell(row, "name");
+    const partner = cell(row, "partner");
+    if (!name || !partner) return;
+
+    const rowNumber = draft.firstRow + index;
+    const a = numberOfName.get(name.toLowerCase()) ?? 0;
+    const b = numberOfName.get(partner.toLowerCase());
+    if (partner.toLowerCase() === name.toLowerCase()) {
+      errors.push(`Row ${rowNumber}: "${name}" cannot be their own partner.`);
+    } else if (b === undefined) {
+      errors.push(`Row ${rowNumber}: partner "${partner}" is not on the roster.`);
+    } else if (pinnedTo.get(a) === b) {
+      // the partner's row names this player back
+    } else if (pinnedTo.has(a) || pinnedTo.has(b)) {
+      errors.push(`Row ${rowNumber}: "${name}" or "${partner}" already has a different fixed partner.`);
+    } else {
+      pinnedTo.set(a, b).set(b, a);
+      pins.push({ kind: "pinPartners", players: [a, b] });
+    }
+  });
+
+  return { players, pins, errors };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { Round } from "./core";
+import { generateSchedule, type ScheduleArgs } from "./generate";
+import { parseCourtsInput } from "./input";
+import {
+  applyOverrides,
+  courtsToText,
+  decodeSharePayload,
+  encodeSharePayload,
+  overridesFor,
+  type RoundOverride,
+} from "./share";
+
+describe("courtsToText", () => {
+  it("writes courts that parseCourtsInput reads back the same", () => {
+    for (const courts of [[1, 2, 3, 4, 7], [5], [2, 4, 5, 6, 9, 10]]) {
+      expect(parseCourtsInput(courtsToText(courts)).courts).toEqual(courts);
+    }
+    expect(courtsToText([1, 2, 3, 4, 7])).toBe("1-4,7");
+    expect(courtsToText([5])).toBe("5-5");
+  });
+});
+
+describe("share payload", () => {
+  it("brings back the edited schedule from the recipe and its overrides", () => {
+    const args: ScheduleArgs = { mode: "roundRobin", participantCount: 10, courtNumbers: [1, 2], games: 6, seed: 21 };
+    const base = generateSchedule(args).rounds;
+
+    // Game 3: swap a player with someone sitting out; game 6 dropped (session cut short)
+    const edited: Round[] = base.slice(0, 5).map((r) => structuredClone(r));
+    const [court] = edited[2].courts;
+    [court.group[0], edited[2].byes[0]] = [edited[2].byes[0], court.group[0]];
+
+    const link = encodeSharePayload({ args, overrides: overridesFor(edited, base), gameCount: edited.length });
+    expect(link).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const received = decodeSharePayload(link) as { args: ScheduleArgs; overrides: RoundOverride[]; gameCount: number };
+    expect(received.overrides.map(([gameNumber]) => gameNumber)).toEqual([3]);
+    const draft = generateSchedule(received.args).rounds;
+    expect(applyOverrides(draft, received.overrides, received.gameCount)).toEqual(edited);
+  });
+
+  it("keeps names outside ASCII intact", () => {
+    const roster = ["Zoë", "José", "李明", "Ørjan 🏓"];
+    expect(decodeSharePayload(encodeSharePayload({ roster }))).toEqual({ roster });
+  });
+});
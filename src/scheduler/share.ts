@@ -0,0 +1,64 @@
+/**
+ * Share links: a schedule travels as its recipe (the generate arguments and seed) plus the games that differ from it.
+ * - The receiver regenerates the draft from the recipe and lays the overrides over it (replans, manual edits)
+ * - Overrides store courts as [courtNumber, ...group] to keep the link short
+ * - The payload is JSON in URL-safe base64 (UTF-8, so names in any script survive)
+ */
+
+import type { Round } from "./core";
+
+export type RoundOverride = [gameNumber: number, courts: number[][], byes: number[]];
+
+export function courtsToText(courts: number[]): string {
+  // Ranges like "1-4,7"; a lone court is written "5-5" so it isn't read back as a court count
+  const parts: string[] = [];
+  for (let i = 0; i < courts.length; i++) {
+    let j = i;
+    while (j + 1 < courts.length && courts[j + 1] === courts[j] + 1) j++;
+    parts.push(j > i ? `${courts[i]}-${courts[j]}` : String(courts[i]));
+    i = j;
+  }
+  const text = parts.join(",");
+  return /^\d+$/.test(text) ? `${text}-${text}` : text;
+}
+
+export function encodeSharePayload(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeSharePayload(encoded: string): unknown {
+  // Throws on a damaged link; callers treat that as "no share"
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))));
+}
+
+export function overridesFor(rounds: Round[], baseRounds: Round[]): RoundOverride[] {
+  const base = new Map(baseRounds.map((r) => [r.gameNumber, JSON.stringify([r.courts, r.byes])]));
+  return rounds
+    .filter((r) => base.get(r.gameNumber) !== JSON.stringify([r.courts, r.byes]))
+    .map((r) => [r.gameNumber, r.courts.map((c) => [c.courtNumber, ...c.group]), r.byes]);
+}
+
+export function applyOverrides(baseRounds: Round[], overrides: RoundOverride[], gameCount: number): Round[] {
+  const byGame = new Map(overrides.map(([gameNumber, courts, byes]) => [gameNumber, { courts, byes }]));
+  const rounds: Round[] = [];
+
+  for (let gameNumber = 1; gameNumber <= gameCount; gameNumber++) {
+    const o = byGame.get(gameNumber);
+    const base = baseRounds.find((r) => r.gameNumber === gameNumber);
+    if (o) {
+      rounds.push({
+        gameNumber,
+        courts: o.courts.map(([courtNumber, ...group]) => ({ courtNumber, group })),
+        byes: o.byes,
+      });
+    } else if (base) {
+      rounds.push(base);
+    }
+  }
+
+  return rounds;
+}
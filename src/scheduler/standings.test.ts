@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { Round, SessionScores } from "./core";
+import { computeStandings, DEFAULT_TIEBREAKERS, type Tiebreaker } from "./standings";
+
+const rounds: Round[] = [
+  {
+    gameNumber: 1,
+    courts: [
+      { courtNumber: 1, group: [1, 2, 3, 4] },
+      { courtNumber: 2, group: [5, 6, 7] },
+    ],
+    byes: [8],
+  },
+  { gameNumber: 2, courts: [{ courtNumber: 1, group: [1, 3, 2, 4] }], byes: [5, 6, 7, 8] },
+];
+
+describe("computeStandings", () => {
+  it("gives each team member the team's result", () => {
+    const scores: SessionScores = { 1: { 1: { teamA: 11, teamB: 7 } }, 2: { 1: { teamA: 5, teamB: 11 } } };
+    const [first, second] = computeStandings(rounds, scores, DEFAULT_TIEBREAKERS);
+
+    // #2 won both games; #4 and #1 won one each, #4 by more points
+    expect(first).toEqual({ id: 2, wins: 2, losses: 0, pointsFor: 22, pointsAgainst: 12, played: 2 });
+    expect(second).toEqual({ id: 4, wins: 1, losses: 1, pointsFor: 18, pointsAgainst: 16, played: 2 });
+  });
+
+  it("lists everyone but leaves unscored, tied and cutthroat courts out of the results", () => {
+    const scores: SessionScores = {
+      1: { 1: { teamA: 9, teamB: 9 }, 2: { teamA: 11, teamB: 3 } },
+      2: { 1: { teamA: 11 } },
+    };
+    const rows = computeStandings(rounds, scores, DEFAULT_TIEBREAKERS);
+
+    expect(rows.map((r) => r.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    // The tie counts as played, without a win or a loss
+    expect(rows[0]).toEqual({ id: 1, wins: 0, losses: 0, pointsFor: 9, pointsAgainst: 9, played: 1 });
+    expect(rows.slice(4).every((r) => r.played === 0)).toBe(true);
+  });
+
+  it("orders rows by the tiebreakers in the order given, then by number", () => {
+    // Game 1: 1-2 beat 3-4 by 2; game 2: 2-4 beat 1-3 by 8, so #1 and #4 both have one win
+    const scores: SessionScores = { 1: { 1: { teamA: 11, teamB: 9 } }, 2: { 1: { teamA: 3, teamB: 11 } } };
+    const ids = (order: Tiebreaker[]) => computeStandings(rounds, scores, order).map((r) => r.id).slice(0, 3);
+
+    expect(ids(["wins", "pointDiff"])).toEqual([2, 4, 1]);
+    expect(ids(["wins"])).toEqual([2, 1, 4]);
+  });
+});
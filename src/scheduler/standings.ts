@@ -0,0 +1,74 @@
+/**
+ * Standings from entered scores: wins, losses, points for/against and games played per player (couples: per couple).
+ * - Every team member gets the team's result; a tie counts as played but neither a win nor a loss
+ * - Courts without a complete score (and cutthroat, which has no team score) only add the row, not a result
+ * - Rows are ordered by the tiebreakers in the order given, then by participant number
+ */
+
+import { courtSides, isCompleteScore, type Round, type SessionScores } from "./core";
+
+export type StandingRow = {
+  id: number; // player (roundRobin) or couple (couples)
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  played: number;
+};
+
+export type Tiebreaker = "wins" | "pointDiff" | "pointsFor" | "winPct";
+
+export const TIEBREAKERS: Record<Tiebreaker, { label: string; value: (r: StandingRow) => number }> = {
+  wins: { label: "Wins", value: (r) => r.wins },
+  pointDiff: { label: "Point differential", value: (r) => r.pointsFor - r.pointsAgainst },
+  pointsFor: { label: "Points scored", value: (r) => r.pointsFor },
+  winPct: { label: "Win %", value: (r) => (r.played ? r.wins / r.played : 0) },
+};
+
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ["wins", "pointDiff", "pointsFor", "winPct"];
+
+export function computeStandings(rounds: Round[], scores: SessionScores, order: Tiebreaker[]): StandingRow[] {
+  const rows = new Map<number, StandingRow>();
+  const rowFor = (id: number): StandingRow => {
+    let row = rows.get(id);
+    if (!row) {
+      row = { id, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0, played: 0 };
+      rows.set(id, row);
+    }
+    return row;
+  };
+
+  for (const round of rounds) {
+    for (const b of round.byes) rowFor(b);
+
+    for (const court of round.courts) {
+      const [sideA, sideB] = courtSides(court.group);
+      const score = scores[round.gameNumber]?.[court.courtNumber];
+
+      for (const id of court.group) rowFor(id);
+      if (court.group.length === 3 || !isCompleteScore(score)) continue;
+
+      const record = (side: number[], pf: number, pa: number) => {
+        for (const id of side) {
+          const row = rowFor(id);
+          row.played += 1;
+          row.pointsFor += pf;
+          row.pointsAgainst += pa;
+          if (pf > pa) row.wins += 1;
+          else if (pf < pa) row.losses += 1;
+        }
+      };
+
+      record(sideA, score.teamA, score.teamB);
+      record(sideB, score.teamB, score.teamA);
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => {
+    for (const key of order) {
+      const diff = TIEBREAKERS[key].value(b) - TIEBREAKERS[key].value(a);
+      if (diff !== 0) return diff;
+    }
+    return a.id - b.id;
+  });
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceBracket,
+  bracketChampion,
+  createBracket,
+  generatePoolPlay,
+  isMatchPlayable,
+  playoffTeams,
+  resolveBracket,
+  seedQualifiers,
+  splitIntoPools,
+  type Bracket,
+} from "./tournament";
+
+// Plays every called match with the better seed winning until there is a champion
+function playOut(bracket: Bracket, courts: number[]): Bracket {
+  let current = advanceBracket(bracket, courts);
+  while (bracketChampion(current) === undefined) {
+    const status = resolveBracket(current);
+    const index = current.matches.findIndex((m, i) => m.court !== null && isMatchPlayable(status[i]));
+    expect(index).toBeGreaterThanOrEqual(0);
+    const { a, b } = status[index];
+    const score = (a as number) < (b as number) ? { teamA: 11, teamB: 6 } : { teamA: 6, teamB: 11 };
+    current = advanceBracket({ ...current, matches: current.matches.map((m, i) => (i === index ? { ...m, score } : m)) }, courts);
+  }
+  return current;
+}
+
+const teamsOf = (n: number) => Array.from({ length: n }, (_, i) => [i + 1]);
+
+describe("pool play", () => {
+  it("deals everyone into exactly one pool, snaking levels across pools", () => {
+    const pools = splitIntoPools(8, 2, [8, 7, 6, 5, 4, 3, 2, 1], 1);
+    expect(pools).toEqual([
+      [1, 4, 5, 8],
+      [2, 3, 6, 7],
+    ]);
+  });
+
+  it("keeps each pool on its own courts", () => {
+    const settings = { pools: 2, advance: 2, format: "single" as const, poolSeed: 4 };
+    const { rounds, error } = generatePoolPlay(
+      { mode: "roundRobin", participantCount: 16, courtNumbers: [1, 2, 3, 4], games: 4, seed: 7 },
+      settings
+    );
+    const [poolA, poolB] = splitIntoPools(16, 2, [], 4);
+
+    expect(error).toBe("");
+    expect(rounds).toHaveLength(4);
+    for (const round of rounds) {
+      for (const court of round.courts) {
+        const pool = court.courtNumber <= 2 ? poolA : poolB;
+        expect(court.group.every((p) => pool.includes(p))).toBe(true);
+      }
+    }
+  });
+
+  it("needs a court per pool", () => {
+    const settings = { pools: 3, advance: 1, format: "single" as const, poolSeed: 1 };
+    const { error } = generatePoolPlay({ mode: "couples", participantCount: 12, courtNumbers: [1, 2], games: 3, seed: 1 }, settings);
+    expect(error).toMatch(/one court per pool/);
+  });
+});
+
+describe("playoff seeding", () => {
+  it("seeds pool winners first, then runners-up", () => {
+    expect(seedQualifiers([5, 1, 9, 2, 8, 3], [[1, 2, 3], [5, 8, 9]], 2)).toEqual([5, 1, 9, 2]);
+  });
+
+  it("teams the best qualifier with the last one in", () => {
+    expect(playoffTeams([4, 7, 1, 2], "roundRobin").teams).toEqual([
+      [4, 2],
+      [7, 1],
+    ]);
+    expect(playoffTeams([4, 7, 1, 2, 9], "roundRobin").error).toMatch(/even number/);
+  });
+});
+
+describe("brackets", () => {
+  it.each([2, 3, 5, 8])("single elimination with %i teams crowns the top seed", (n) => {
+    const bracket = createBracket(teamsOf(n), "single");
+    expect(bracket.matches).toHaveLength(2 ** Math.ceil(Math.log2(n)) - 1);
+    expect(bracketChampion(playOut(bracket, [1, 2]))).toBe(0);
+  });
+
+  it("gives the top seeds the byes", () => {
+    const status = resolveBracket(createBracket(teamsOf(6), "single"));
+    const firstRound = status.slice(0, 4);
+    expect(firstRound.filter((s) => s.b === null).map((s) => s.winner)).toEqual([0, 1]);
+  });
+
+  it("double elimination sends first-round losers to the losers bracket", () => {
+    const bracket = createBracket(teamsOf(8), "double");
+    expect(bracket.matches).toHaveLength(14);
+    expect(bracket.matches.filter((m) => m.side === "losers")).toHaveLength(6);
+
+    const finished = playOut(bracket, [1, 2, 3]);
+    const status = resolveBracket(finished);
+    expect(bracketChampion(finished)).toBe(0);
+    // Seed 2 only loses to seed 1, so they meet again in the grand final
+    expect(status[status.length - 1]).toMatchObject({ a: 0, b: 1 });
+  });
+
+  it("calls matches to free courts and keeps a court until its match ends", () => {
+    const bracket = advanceBracket(createBracket(teamsOf(8), "single"), [3, 4]);
+    expect(bracket.matches.slice(0, 4).map((m) => m.court)).toEqual([3, 4, null, null]);
+
+    const scored = { ...bracket, matches: bracket.matches.map((m, i) => (i === 1 ? { ...m, score: { teamA: 11, teamB: 9 } } : m)) };
+    expect(advanceBracket(scored, [3, 4]).matches.slice(0, 4).map((m) => m.court)).toEqual([3, 4, 4, null]);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tournament day: pool play, then a playoff bracket.
+ * - Pools: participants are dealt into pools (snake order by rating when there are ratings, otherwise at random)
+ * - Pool play: each pool is its own session on its own block of courts, built by the regular generator
+ * - Seeding: pool winners first, then runners-up, and so on; within a place, by the overall standings
+ * - Round Robin players team up for the playoffs: best qualifier with the last one in, second with second-last, ...
+ * - Brackets: single or double elimination (one grand final, no reset); byes go to the top seeds
+ * - A match is called to the first free court as soon as both teams are known
+ */
+
+import { createRng, ratingBalanceFor, shuffle, type CourtScore, type Mode, type Round } from "./core";
+import { describeConstraint, generateSchedule, type ScheduleArgs } from "./generate";
+
+export type BracketFormat = "single" | "double";
+
+export type TournamentSettings = {
+  pools: number;
+  advance: number; // qualifiers per pool
+  format: BracketFormat;
+  poolSeed: number; // the pool split; kept when a replan changes the game seed
+};
+
+// Where a bracket slot's team comes from
+export type BracketSource =
+  | { kind: "seed"; seed: number } // 1 = top seed
+  | { kind: "winner"; match: number } // index into Bracket.matches (always an earlier match)
+  | { kind: "loser"; match: number };
+
+export type BracketMatch = {
+  side: "winners" | "losers" | "final"; // single elimination only has winners matches
+  round: number; // 1-based within its side
+  a: BracketSource;
+  b: BracketSource;
+  court: number | null; // set when the match is called to a court
+  score: CourtScore; // teamA = slot a, teamB = slot b
+};
+
+export type Bracket = {
+  format: BracketFormat;
+  teams: number[][]; // teams[0] = seed 1; participant numbers (a couple is one number)
+  matches: BracketMatch[];
+};
+
+// Team indexes (into Bracket.teams): null = nobody (a bye), undefined = waiting on an earlier match
+export type MatchStatus = {
+  a: number | null | undefined;
+  b: number | null | undefined;
+  winner: number | null | undefined;
+  loser: number | null | undefined;
+};
+
+/* ---------------- Pools ---------------- */
+
+export function poolName(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export function splitIntoPools(
+  participantCount: number,
+  poolCount: number,
+  ratings: (number | undefined)[],
+  seed: number
+): number[][] {
+  const random = createRng(seed);
+  const balance = ratingBalanceFor(ratings, 1);
+  const shuffled = shuffle(Array.from({ length: participantCount }, (_, i) => i + 1), random);
+  const order = balance ? shuffled.sort((a, b) => balance.ratingOf(b) - balance.ratingOf(a)) : shuffled;
+
+  // Snake: A B C C B A A B C ... so every pool gets a similar spread of levels
+  const pools: number[][] = Array.from({ length: poolCount }, () => []);
+  order.forEach((p, i) => {
+    const k = i % poolCount;
+    pools[Math.floor(i / poolCount) % 2 ? poolCount - 1 - k : k].push(p);
+  });
+  return pools.map((pool) => pool.sort((a, b) => a - b));
+}
+
+function poolCourts(courtNumbers: number[], poolCount: number): number[][] {
+  // Consecutive blocks of courts, as even as possible
+  return Array.from({ length: poolCount }, (_, k) =>
+    courtNumbers.slice(Math.floor((k * courtNumbers.length) / poolCount), Math.floor(((k + 1) * courtNumbers.length) / poolCount))
+  );
+}
+
+export function generatePoolPlay(args: ScheduleArgs, settings: TournamentSettings): { rounds: Round[]; error: string } {
+  const { mode, participantCount, courtNumbers } = args;
+  const unit = mode === "couples" ? "couples" : "players";
+  const minimum = mode === "couples" ? 2 : 4;
+
+  if (mode === "ladder") return { rounds: [], error: "Tournaments use Couples or Round Robin pool play." };
+  if (settings.pools < 1) return { rounds: [], error: "Please enter the number of pools." };
+  if (args.courtChanges?.length) return { rounds: [], error: "Court changes don't apply to pool play." };
+  if (participantCount > 0 && participantCount < settings.pools * minimum) {
+    return { rounds: [], error: `Each pool needs at least ${minimum} ${unit}; use fewer pools.` };
+  }
+  if (courtNumbers.length && courtNumbers.length < settings.pools) {
+    return {
+      rounds: [],
+      error: `Pool play needs at least one court per pool (${settings.pools} pools, ${courtNumbers.length} courts).`,
+    };
+  }
+
+  const pools = splitIntoPools(participantCount, settings.pools, args.ratings ?? [], settings.poolSeed);
+  const poolOf = new Map(pools.flatMap((pool, k) => pool.map((p) => [p, k] as const)));
+  const constraints = args.constraints ?? [];
+  for (let i = 0; i < constraints.length; i++) {
+    const c = constraints[i];
+    if (c.kind === "pinPartners" && poolOf.get(c.players[0]) !== poolOf.get(c.players[1])) {
+      const rule = describeConstraint(c, (id) => `#${id}`);
+      return { rounds: [], error: `Rule ${i + 1} (${rule}) can't be met: they are in different pools.` };
+    }
+  }
+
+  const courts = poolCourts(courtNumbers, settings.pools);
+  const perPool: Round[][] = [];
+  for (const [k, pool] of pools.entries()) {
+    const inPool = new Set(pool);
+    const ofPool = (r: Round): Round => ({
+      ...r,
+      courts: r.courts.filter((c) => c.group.some((p) => inPool.has(p))),
+      byes: r.byes.filter((p) => inPool.has(p)),
+    });
+
+    const result = generateSchedule({
+      ...args,
+      pool,
+      courtNumbers: courts[k],
+      history: args.history?.map(ofPool),
+      locked: args.locked?.map(ofPool),
+      seed: args.seed + k,
+    });
+    if (result.error) return { rounds: [], error: `Pool ${poolName(k)}: ${result.error}` };
+    perPool.push(result.rounds);
+  }
+
+  // Every pool plays the same games, so game i is each pool's game i side by side
+  const rounds = perPool[0].map((round, i) => ({
+    gameNumber: round.gameNumber,
+    courts: perPool.flatMap((r) => r[i].courts).sort((a, b) => a.courtNumber - b.courtNumber),
+    byes: perPool.flatMap((r) => r[i].byes).sort((a, b) => a - b),
+  }));
+  return { rounds, error: "" };
+}
+
+export function seedQualifiers(order: number[], pools: number[][], advance: number): number[] {
+  // order: everyone, best first (overall standings); the top `advance` of each pool qualify
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const byRank = (a: number, b: number) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0);
+  const ranked = pools.map((pool) => pool.filter((p) => rank.has(p)).sort(byRank));
+
+  const seeds: number[] = [];
+  for (let place = 0; place < advance; place++) {
+    seeds.push(...ranked.flatMap((pool) => (place < pool.length ? [pool[place]] : [])).sort(byRank));
+  }
+  return seeds;
+}
+
+export function playoffTeams(seeds: number[], mode: Mode): { teams: number[][]; error: string } {
+  if (mode === "couples") {
+    if (seeds.length < 2) return { teams: [], error: "The playoffs need at least 2 couples." };
+    return { teams: seeds.map((id) => [id]), error: "" };
+  }
+
+  if (seeds.length < 4) return { teams: [], error: "The playoffs need at least 4 players." };
+  if (seeds.length % 2) return { teams: [], error: `${seeds.length} players qualify; the playoffs need an even number to make teams.` };
+  const half = seeds.length / 2;
+  return { teams: seeds.slice(0, half).map((id, k) => [id, seeds[seeds.length - 1 - k]]), error: "" };
+}
+
+/* ---------------- Brackets ---------------- */
+
+function seedOrder(size: number): number[] {
+  // 1 vs size, and the top two seeds can only meet in the final: [1, 4, 2, 3] for 4, [1, 8, 4, 5, 2, 7, 3, 6] for 8
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+export function createBracket(teams: number[][], format: BracketFormat): Bracket {
+  const size = 2 ** Math.ceil(Math.log2(Math.max(2, teams.length)));
+  const matches: BracketMatch[] = [];
+  const add = (side: BracketMatch["side"], round: number, a: BracketSource, b: BracketSource): number =>
+    matches.push({ side, round, a, b, court: null, score: {} }) - 1;
+  const winner = (match: number): BracketSource => ({ kind: "winner", match });
+  const loser = (match: number): BracketSource => ({ kind: "loser", match });
+
+  const winnersRounds: number[][] = [];
+  let slots: BracketSource[] = seedOrder(size).map((seed) => ({ kind: "seed", seed }));
+  for (let round = 1; slots.length > 1; round++) {
+    const ids: number[] = [];
+    for (let i = 0; i < slots.length; i += 2) ids.push(add("winners", round, slots[i], slots[i + 1]));
+    winnersRounds.push(ids);
+    slots = ids.map(winner);
+  }
+  if (format === "single") return { format, teams, matches };
+
+  // Losers bracket: first-round losers play each other, then each winners round drops its losers in
+  // (in reverse order, so nobody meets the team that just beat them)
+  let survivors = winnersRounds[0].map(loser);
+  let round = 0;
+  const pairUp = () => {
+    if (survivors.length < 2) return;
+    round += 1;
+    const ids: number[] = [];
+    for (let i = 0; i < survivors.length; i += 2) ids.push(add("losers", round, survivors[i], survivors[i + 1]));
+    survivors = ids.map(winner);
+  };
+
+  pairUp();
+  for (let k = 1; k < winnersRounds.length; k++) {
+    const dropping = winnersRounds[k].map(loser).reverse();
+    round += 1;
+    survivors = survivors.map((s, i) => winner(add("losers", round, s, dropping[i])));
+    if (k < winnersRounds.length - 1) pairUp();
+  }
+
+  add("final", 1, slots[0], survivors[0]);
+  return { format, teams, matches };
+}
+
+export function resolveBracket(bracket: Bracket): MatchStatus[] {
+  // Sources always point at earlier matches, so one pass in order settles everything
+  const status: MatchStatus[] = [];
+  const teamIn = (source: BracketSource): number | null | undefined => {
+    if (source.kind === "seed") return source.seed <= bracket.teams.length ? source.seed - 1 : null;
+    const earlier = status[source.match];
+    return source.kind === "winner" ? earlier.winner : earlier.loser;
+  };
+
+  for (const match of bracket.matches) {
+    const a = teamIn(match.a);
+    const b = teamIn(match.b);
+    const { teamA, teamB } = match.score;
+
+    if (a === null || b === null) {
+      // A bye: the other team goes through as soon as it is known
+      const other = a === null ? b : a;
+      status.push({ a, b, winner: other, loser: other === undefined ? undefined : null });
+    } else if (a !== undefined && b !== undefined && typeof teamA === "number" && typeof teamB === "number" && teamA !== teamB) {
+      status.push({ a, b, winner: teamA > teamB ? a : b, loser: teamA > teamB ? b : a });
+    } else {
+      status.push({ a, b, winner: undefined, loser: undefined });
+    }
+  }
+  return status;
+}
+
+export function isMatchPlayable(status: MatchStatus): boolean {
+  return typeof status.a === "number" && typeof status.b === "number" && status.winner === undefined;
+}
+
+export function advanceBracket(bracket: Bracket, courts: number[]): Bracket {
+  // Courts of unfinished matches stay taken; every playable match without a court gets the first free one
+  const status = resolveBracket(bracket);
+  const busy = new Set(
+    bracket.matches.flatMap((m, i) => (m.court !== null && status[i].winner === undefined ? [m.court] : []))
+  );
+
+  const matches = bracket.matches.map((m, i) => {
+    if (m.court !== null || !isMatchPlayable(status[i])) return m;
+    const court = courts.find((c) => !busy.has(c));
+    if (court === undefined) return m;
+    busy.add(court);
+    return { ...m, court };
+  });
+  return { ...bracket, matches };
+}
+
+export function bracketChampion(bracket: Bracket): number | null | undefined {
+  // The last match is the final (single elimination) or the grand final (double)
+  const status = resolveBracket(bracket);
+  return status[status.length - 1]?.winner;
+}